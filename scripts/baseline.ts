@@ -0,0 +1,183 @@
+#!/usr/bin/env bun
+/**
+ * Record which tests each task's bug breaks (tasks/<task>/baseline.json).
+ *
+ * The tests are run against the unmodified src/ and against the solution;
+ * tests that fail before and pass after become FAIL_TO_PASS, tests that pass
+ * in both become PASS_TO_PASS. `bun run evaluate` judges patches by these
+ * lists. A task whose buggy src/ fails no test, or whose solution fails any,
+ * is reported and its baseline is left unchanged.
+ *
+ * src/ is tested --repeat times (3 by default). A test whose outcome against
+ * src/ varies between those runs is left out of both lists, since no run can
+ * tell whether a patch fixed it.
+ *
+ * Usage: bun run baseline [--check] [--repeat N] [--jobs N] [task-name...]
+ *
+ * With --check, no files are written and the command exits non-zero if a
+ * baseline is missing, out of date or cannot be produced.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks, testBuggy, testSolution } from "./lib/tasks";
+import { loadManifest } from "./lib/manifest";
+import { computeBaseline, formatBaseline, testId, writeBaseline, type TestBaseline } from "./lib/baseline";
+import { findFlaky } from "./lib/flaky";
+import { parseJobs, runPool } from "./lib/pool";
+
+interface BaselineRun {
+  baseline?: TestBaseline;
+  problems: string[];
+  /** Tests left out because their outcome against src/ varied */
+  unstable?: string[];
+  /** Set when the tests could not run, e.g. for lack of a service */
+  skipReason?: string;
+}
+
+async function runBaseline(taskDir: string, repeat: number): Promise<BaselineRun> {
+  const manifest = loadManifest(taskDir);
+  // A run that could not test src/ at all ends the series and is reported
+  let buggy = await testBuggy(taskDir);
+  const buggyRuns = [buggy];
+  while (buggyRuns.length < repeat && !buggy.skipped && !(buggy.error && !buggy.timedOut)) {
+    buggy = await testBuggy(taskDir);
+    buggyRuns.push(buggy);
+  }
+  const solution = await testSolution(taskDir);
+
+  if (buggy.skipped || solution.skipped) {
+    return { problems: [], skipReason: buggy.skipReason ?? solution.skipReason };
+  }
+  const problems: string[] = [];
+  // A buggy src/ that hangs counts as failing every test that did not report
+  if (buggy.error && !buggy.timedOut) {
+    problems.push(`could not run tests against src/: ${buggy.error}`);
+  }
+  if (solution.error) {
+    problems.push(`could not run tests against solution/: ${solution.error}`);
+  }
+  if (problems.length > 0) {
+    return { problems };
+  }
+
+  const broken = (solution.tests ?? []).filter(t => t.status === "fail");
+  if (broken.length > 0) {
+    problems.push(`${broken.length} test(s) fail against solution/: ${broken.map(testId).join(", ")}`);
+  } else if (!solution.passed) {
+    problems.push("tests fail against solution/");
+  }
+
+  const unstable = Object.keys(findFlaky(buggyRuns.map(r => r.tests ?? [])).passes);
+  const computed = computeBaseline(buggy.tests ?? [], solution.tests ?? []);
+  const baseline: TestBaseline = {
+    FAIL_TO_PASS: computed.FAIL_TO_PASS.filter(id => !unstable.includes(id)),
+    PASS_TO_PASS: computed.PASS_TO_PASS.filter(id => !unstable.includes(id)),
+  };
+  if (baseline.FAIL_TO_PASS.length + baseline.PASS_TO_PASS.length === 0) {
+    problems.push("no tests pass against solution/");
+  } else if (baseline.FAIL_TO_PASS.length === 0 && manifest.strategy !== "test-focused") {
+    // Test-focused tasks ship the bug in test/ itself, their buggy tests may well pass
+    problems.push("no test fails against the buggy src/");
+  }
+
+  return { baseline, problems, unstable };
+}
+
+async function main() {
+  const { values, positionals: only } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      check: { type: "boolean", default: false },
+      repeat: { type: "string", default: "3" },
+      jobs: { type: "string", short: "j" },
+    },
+    allowPositionals: true,
+  });
+  const { check } = values;
+  const jobs = parseJobs(values.jobs);
+  const repeat = Number(values.repeat);
+  if (!Number.isInteger(repeat) || repeat < 1) {
+    console.error(`Invalid --repeat: ${values.repeat}`);
+    process.exit(1);
+  }
+  const tasks = listTasks(only);
+
+  const unknown = only.filter(t => !tasks.includes(t));
+  if (unknown.length > 0) {
+    console.error(`Unknown tasks: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  const invalid: Record<string, string[]> = {};
+  let updated = 0;
+  let skipped = 0;
+
+  console.log(`${check ? "Checking" : "Recording"} baselines of ${tasks.length} tasks with ${jobs} worker(s)...`);
+
+  await runPool(tasks, jobs, async task => {
+    const taskDir = join(tasksDir, task);
+    let run: BaselineRun;
+    try {
+      run = await runBaseline(taskDir, repeat);
+    } catch (error) {
+      run = { problems: [String(error)] };
+    }
+
+    const { baseline, problems, unstable = [], skipReason } = run;
+    const path = join(taskDir, "baseline.json");
+    const current = existsSync(path) ? readFileSync(path, "utf8") : undefined;
+    const stale = baseline !== undefined && formatBaseline(baseline) !== current;
+
+    if (check && problems.length === 0 && stale) {
+      problems.push(current === undefined ? "baseline.json is missing" : "baseline.json is out of date");
+    }
+
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines = [`\n${task}...`];
+    if (skipReason) {
+      skipped++;
+      lines.push(`  ⏭️  SKIPPED: ${skipReason}`);
+    } else if (problems.length > 0) {
+      invalid[task] = problems;
+      lines.push(`  ❌ NO BASELINE`);
+      for (const p of problems) {
+        lines.push(`     - ${p}`);
+      }
+    } else {
+      const counts =
+        `${baseline!.FAIL_TO_PASS.length} fail-to-pass, ${baseline!.PASS_TO_PASS.length} pass-to-pass` +
+        (unstable.length > 0 ? `, ${unstable.length} unstable against src/` : "");
+      if (!check && stale) {
+        writeBaseline(taskDir, baseline!);
+        updated++;
+        lines.push(`  🔧 UPDATED (${counts})`);
+      } else {
+        lines.push(`  ✅ UP TO DATE (${counts})`);
+      }
+      for (const id of unstable) {
+        lines.push(`     ~ ${id}`);
+      }
+    }
+    console.log(lines.join("\n"));
+  });
+
+  const failed = Object.keys(invalid).length;
+
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(
+    `Results: ${tasks.length - failed - skipped} ok${check ? "" : ` (${updated} updated)`}, ${failed} without a baseline, ${skipped} skipped out of ${tasks.length} total`,
+  );
+
+  if (failed > 0) {
+    console.log(`\nTasks without a baseline:`);
+    for (const [task, problems] of Object.entries(invalid).sort()) {
+      console.log(`  - ${task}: ${problems.join("; ")}`);
+    }
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,156 @@
+#!/usr/bin/env bun
+/**
+ * Run every reference solution under several bun binaries and show which
+ * tasks are valid on which Bun version (see lib/matrix.ts).
+ *
+ * Usage: bun run matrix --bun PATH [--bun PATH...] [--jobs N] [--json FILE] [task-name...]
+ *
+ * Each --bun is a locally installed bun binary, e.g.
+ * ~/.bun-versions/1.2.0/bin/bun, or "bun" for the one on PATH. Tasks run
+ * concurrently; each task's solution runs under one binary after another.
+ * Runs on binaries older than a task's minBunVersion are skipped. The
+ * command exits non-zero if a solution fails on a version its manifest
+ * admits, and suggests the minBunVersion the matrix supports instead, or
+ * if a task's manifest cannot be read.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { parseArgs } from "util";
+import { bunVersion, listTasks, tasksDir, testSolution } from "./lib/tasks";
+import { loadManifest, ManifestError, type TaskManifest } from "./lib/manifest";
+import { parseJobs, runPool } from "./lib/pool";
+import { buildMatrix, sortBinaries, suggestMinVersions, type BunBinary, type MatrixRow } from "./lib/matrix";
+import { taskReport, type TaskOutcome } from "./lib/report";
+
+const OUTCOME_ICONS: Record<TaskOutcome, string> = {
+  pass: "✅",
+  fail: "❌",
+  error: "⚠️ ",
+  timeout: "⏱️ ",
+  skipped: "⏭️ ",
+};
+
+async function main() {
+  const { values, positionals: only } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      bun: { type: "string", multiple: true, default: [] },
+      jobs: { type: "string", short: "j" },
+      json: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const jobs = parseJobs(values.jobs);
+  const tasks = listTasks(only);
+
+  if (values.bun.length === 0) {
+    console.error("Usage: bun run matrix --bun PATH [--bun PATH...] [--jobs N] [--json FILE] [task-name...]");
+    process.exit(1);
+  }
+  const unknown = only.filter(t => !tasks.includes(t));
+  if (unknown.length > 0) {
+    console.error(`Unknown tasks: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  const binaries: BunBinary[] = [];
+  for (const path of values.bun) {
+    try {
+      binaries.push({ path, version: bunVersion(path) });
+    } catch (error) {
+      console.error(`Cannot run ${path}: ${error}`);
+      process.exit(1);
+    }
+  }
+  const duplicates = binaries.filter((b, i) => binaries.findIndex(o => o.version === b.version) !== i);
+  if (duplicates.length > 0) {
+    console.error(`Several binaries are Bun ${duplicates.map(b => b.version).join(", ")}; pass one per version`);
+    process.exit(1);
+  }
+  const sorted = sortBinaries(binaries);
+
+  console.log(
+    `Testing ${tasks.length} solutions under Bun ${sorted.map(b => b.version).join(", ")} with ${jobs} worker(s)...`,
+  );
+
+  const invalid: Record<string, string> = {};
+
+  const rows = await runPool(tasks, jobs, async task => {
+    const taskDir = join(tasksDir, task);
+    let manifest: TaskManifest;
+    try {
+      manifest = loadManifest(taskDir);
+    } catch (error) {
+      invalid[task] = error instanceof ManifestError ? error.message : String(error);
+      console.log(`\n${task}...\n  ❌ INVALID MANIFEST: ${invalid[task]}`);
+      return undefined;
+    }
+    const row: Omit<MatrixRow, "validFrom"> = {
+      task,
+      category: manifest.category,
+      minBunVersion: manifest.minBunVersion,
+      outcomes: {},
+    };
+
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines = [`\n${task}...`];
+    for (const binary of sorted) {
+      const result = await testSolution(taskDir, binary.path);
+      const { outcome } = taskReport(task, manifest, result);
+      row.outcomes[binary.version] = outcome;
+      const detail = result.skipped ? `: ${result.skipReason}` : result.error ? `: ${result.error}` : "";
+      lines.push(`  ${OUTCOME_ICONS[outcome]} Bun ${binary.version}${detail}`);
+    }
+    console.log(lines.join("\n"));
+    return row;
+  });
+
+  const matrix = buildMatrix(binaries, rows.filter(row => row !== undefined));
+  const versions = matrix.binaries.map(b => b.version);
+  const width = Math.max(4, ...tasks.map(t => t.length));
+  const columns = versions.map(v => Math.max(v.length, "skipped".length));
+
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`${"Task".padEnd(width)}  ${versions.map((v, i) => v.padEnd(columns[i]!)).join("  ")}`.trimEnd());
+  for (const t of matrix.tasks) {
+    const cells = versions.map((v, i) => (t.outcomes[v] ?? "-").padEnd(columns[i]!));
+    console.log(`${t.task.padEnd(width)}  ${cells.join("  ")}`.trimEnd());
+  }
+  console.log(
+    `\nResults: ${versions.map(v => `Bun ${v} ${matrix.byVersion[v]!.valid}/${matrix.byVersion[v]!.total} valid`).join(", ")}`,
+  );
+
+  const suggestions = suggestMinVersions(matrix);
+  if (suggestions.length > 0) {
+    console.log(`\nTasks failing on versions their manifest admits:`);
+    for (const s of suggestions) {
+      console.log(`  - ${s.task}: minBunVersion ${s.declared ?? "(none)"}, valid from ${s.suggested}`);
+    }
+  }
+  const broken = matrix.tasks.filter(t => !t.validFrom && Object.values(t.outcomes).some(o => o !== "skipped"));
+  if (broken.length > 0) {
+    console.log(`\nTasks failing on the newest version:`);
+    for (const t of broken) {
+      console.log(`  - ${t.task}`);
+    }
+  }
+
+  const failed = Object.keys(invalid).sort();
+  if (failed.length > 0) {
+    console.log(`\nTasks with an invalid manifest:`);
+    for (const task of failed) {
+      console.log(`  - ${task}: ${invalid[task]}`);
+    }
+  }
+
+  if (values.json) {
+    mkdirSync(dirname(values.json), { recursive: true });
+    writeFileSync(values.json, JSON.stringify(matrix, null, 2) + "\n");
+    console.log(`📄 JSON report written to ${values.json}`);
+  }
+
+  process.exit(suggestions.length > 0 || broken.length > 0 || failed.length > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,109 @@
+#!/usr/bin/env bun
+/**
+ * Compare two runs from the run history (see lib/history.ts).
+ *
+ * Usage: bun run compare [<before> <after>] [--list] [--verbose] [--db FILE] [--json FILE]
+ *
+ * Runs are given by id, or as "latest" and "previous"; by default the two
+ * most recent runs are compared. Tasks are listed by how they changed:
+ * regressed (passed before, not now), newly passed, and timed out before
+ * but failing now. With --verbose, the tests that broke or got fixed are
+ * named as well. --list shows the recorded runs instead.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { parseArgs } from "util";
+import { diffRuns, findRun, historyPath, listRuns, openHistory, type StoredRun, type TaskChange } from "./lib/history";
+import { formatScore } from "./lib/scoring";
+
+function formatRun(run: StoredRun): string {
+  return `#${run.id} ${run.model} (${run.kind}, bun ${run.bunVersion}, ${run.startedAt}): ${formatScore(run.score)}, ${run.resolved}/${run.total} resolved`;
+}
+
+function formatChange(change: TaskChange, verbose: boolean): string[] {
+  const { before, after } = change;
+  const name = change.sample ? `${change.task} (sample ${change.sample})` : change.task;
+  const lines = [
+    `  - ${name}: ${before.outcome} -> ${after.outcome}, ${formatScore(before.score)} -> ${formatScore(after.score)}`,
+  ];
+  if (verbose) {
+    lines.push(...change.broken.map(id => `     ❌ ${id}`), ...change.fixed.map(id => `     ✅ ${id}`));
+  }
+  return lines;
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      db: { type: "string", default: historyPath },
+      list: { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false },
+      json: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+
+  if (!existsSync(values.db)) {
+    console.error(`No run history at ${values.db}; runs of test:solutions and evaluate are recorded there`);
+    process.exit(1);
+  }
+  const db = openHistory(values.db);
+
+  if (values.list) {
+    for (const run of listRuns(db, 50)) {
+      console.log(formatRun(run));
+    }
+    return;
+  }
+
+  const [beforeRef = "previous", afterRef = "latest"] = positionals;
+  const before = findRun(db, beforeRef);
+  const after = findRun(db, afterRef);
+  if (!before || !after) {
+    console.error(`Unknown run: ${!before ? beforeRef : afterRef} (see bun run compare --list)`);
+    process.exit(1);
+  }
+
+  const diff = diffRuns(db, before, after);
+  console.log(`Before: ${formatRun(before)}`);
+  console.log(`After:  ${formatRun(after)}`);
+
+  const sections: [string, TaskChange[]][] = [
+    ["❌ Regressed", diff.regressed],
+    ["✅ Newly passed", diff.newlyPassed],
+    ["⏱️  Timeout -> fail", diff.timeoutToFail],
+    ["🔧 Other changes", diff.changed],
+  ];
+  for (const [title, changes] of sections) {
+    if (changes.length > 0) {
+      console.log(`\n${title} (${changes.length}):`);
+      console.log(changes.flatMap(c => formatChange(c, values.verbose)).join("\n"));
+    }
+  }
+  if (diff.added.length > 0) {
+    console.log(`\nOnly in #${after.id}: ${diff.added.join(", ")}`);
+  }
+  if (diff.removed.length > 0) {
+    console.log(`\nOnly in #${before.id}: ${diff.removed.join(", ")}`);
+  }
+
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(
+    `Results: ${diff.regressed.length} regressed, ${diff.newlyPassed.length} newly passed, ` +
+      `${diff.timeoutToFail.length} timeout -> fail, ${diff.changed.length} other changes; ` +
+      `score ${formatScore(before.score)} -> ${formatScore(after.score)}`,
+  );
+
+  if (values.json) {
+    mkdirSync(dirname(values.json), { recursive: true });
+    writeFileSync(values.json, JSON.stringify(diff, null, 2) + "\n");
+    console.log(`📄 JSON report written to ${values.json}`);
+  }
+  db.close();
+
+  process.exit(diff.regressed.length > 0 ? 1 : 0);
+}
+
+main();
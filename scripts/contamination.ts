@@ -0,0 +1,98 @@
+#!/usr/bin/env bun
+/**
+ * Compare a model's scores on the original and the perturbed task sets, to
+ * spot tasks it may have memorized (see lib/contamination.ts).
+ *
+ * Usage: bun run contamination <original.json> <perturbed.json> [--threshold T] [--json FILE]
+ *
+ * Both files are JSON reports of `bun run evaluate`, the second run with
+ * `--tasks` pointing at the copies written by `bun run perturb`. A task is
+ * flagged when it is resolved only in the original set or its score drops
+ * by more than T (default 0.1).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { parseArgs } from "util";
+import { compareRuns, type GroupComparison } from "./lib/contamination";
+import { formatScore } from "./lib/scoring";
+import type { RunReport } from "./lib/report";
+
+function formatDelta(delta: number): string {
+  return `${delta >= 0 ? "+" : ""}${(delta * 100).toFixed(1)}`;
+}
+
+function formatGroup(name: string, group: GroupComparison, width: number): string {
+  return (
+    `  ${name.padEnd(width)}  ${formatScore(group.originalScore).padStart(6)} -> ${formatScore(group.perturbedScore).padStart(6)}` +
+    `  (${formatDelta(group.delta)}, resolved ${group.originalResolved} -> ${group.perturbedResolved} of ${group.tasks})`
+  );
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      threshold: { type: "string", default: "0.1" },
+      json: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const [originalPath, perturbedPath] = positionals;
+
+  if (!originalPath || !perturbedPath || !existsSync(originalPath) || !existsSync(perturbedPath)) {
+    console.error("Usage: bun run contamination <original.json> <perturbed.json> [--threshold T] [--json FILE]");
+    process.exit(1);
+  }
+  const threshold = Number(values.threshold);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+    console.error(`Invalid threshold: ${values.threshold}`);
+    process.exit(1);
+  }
+
+  const load = (path: string) => JSON.parse(readFileSync(path, "utf8")) as RunReport;
+  const comparison = compareRuns(load(originalPath), load(perturbedPath), threshold);
+
+  const width = Math.max(0, ...comparison.tasks.map(t => t.task.length));
+  console.log(`Comparing ${comparison.tasks.length} tasks (original -> perturbed):\n`);
+  for (const t of comparison.tasks) {
+    const mark = t.suspicious ? "⚠️ " : "✅";
+    console.log(
+      `  ${mark} ${t.task.padEnd(width)}  ${t.original.outcome.padEnd(7)} ${formatScore(t.original.score).padStart(6)} -> ` +
+        `${t.perturbed.outcome.padEnd(7)} ${formatScore(t.perturbed.score).padStart(6)}  (${formatDelta(t.delta)})`,
+    );
+  }
+
+  const categories = Object.keys(comparison.byCategory).sort();
+  const groupWidth = Math.max(0, ...categories.map(c => c.length));
+  console.log(`\n${"=".repeat(50)}`);
+  const { overall } = comparison;
+  console.log(
+    `Results: score ${formatScore(overall.originalScore)} -> ${formatScore(overall.perturbedScore)} (${formatDelta(overall.delta)} points), ` +
+      `${overall.originalResolved} -> ${overall.perturbedResolved} resolved out of ${overall.tasks} tasks`,
+  );
+  console.log("\nScore by category:");
+  for (const name of categories) {
+    console.log(formatGroup(name, comparison.byCategory[name]!, groupWidth));
+  }
+
+  const suspicious = comparison.tasks.filter(t => t.suspicious);
+  if (suspicious.length > 0) {
+    console.log(`\nPossibly memorized (resolved only in the original, or down more than ${formatScore(threshold)}):`);
+    for (const t of suspicious) {
+      console.log(`  - ${t.task}: ${t.original.outcome} -> ${t.perturbed.outcome}, ${formatDelta(t.delta)} points`);
+    }
+  }
+
+  if (comparison.unmatched.length > 0) {
+    console.log(`\nNot compared (skipped or missing in one run): ${comparison.unmatched.join(", ")}`);
+  }
+
+  if (values.json) {
+    mkdirSync(dirname(values.json), { recursive: true });
+    writeFileSync(values.json, JSON.stringify(comparison, null, 2) + "\n");
+    console.log(`📄 JSON report written to ${values.json}`);
+  }
+}
+
+main();
@@ -0,0 +1,461 @@
+#!/usr/bin/env bun
+/**
+ * Evaluate model patches against the benchmark tasks.
+ *
+ * Each patch is applied to a sandbox copy of its task and the task's tests
+ * are run there, so src/ in the repository is never modified.
+ *
+ * Usage: bun run evaluate <patches> [--model NAME] [--tasks DIR] [--samples] [--k 1,5,10] [--flaky MODE] [--verbose] [--jobs N] [--json FILE] [--junit FILE] [--no-history] [task-name...]
+ *
+ * <patches> is either a directory of per-task patches named after the task
+ * (task-001-content-length.diff, or just task-001.patch), or a single patch
+ * whose paths start with tasks/<task-name>/. Per-task patches may use paths
+ * relative to the task directory or to the repository root.
+ *
+ * With --samples, <patches> is a directory holding one such directory per
+ * sample (samples/1/, samples/2/, ...), for models sampled several times per
+ * task. Every candidate patch is evaluated in a sandbox of its own, and the
+ * unbiased pass@k for each k in --k (default 1,5,10) is reported per task,
+ * per category and overall (see passk.ts).
+ *
+ * --tasks evaluates against another set of task directories with the same
+ * names, such as the perturbed copies written by `bun run perturb`.
+ *
+ * Held-out tests in a task's hidden/ directory run along with test/, and
+ * the report scores the visible and hidden tests apart as well.
+ *
+ * A task with a baseline.json (see baseline.ts) is resolved when all its
+ * FAIL_TO_PASS and PASS_TO_PASS tests pass; other tasks when the whole test
+ * run passes. Tasks whose services are unavailable are skipped and left
+ * out of the results.
+ *
+ * Tests recorded in a task's flaky.json (see flaky.ts) do not count towards
+ * resolution, and --flaky decides their weight in the score: "exclude"
+ * (the default) leaves them out, "downweight" weighs them by how often the
+ * solution passed them, "keep" treats them like other tests, resolution
+ * included.
+ *
+ * Every run is recorded in the run history (see lib/history.ts) under
+ * --model, by default the name of <patches>, unless --no-history is given.
+ *
+ * Changes to tests, the solution, snapshots, package files or anything
+ * outside the task are stripped from patches before they are applied and
+ * reported per hunk (see tamper.ts).
+ *
+ * Applied patches are also measured against the reference solution: their
+ * size, lines changed outside the reference fix, AST similarity to it, and
+ * literals from the tests they special-case (see quality.ts). --verbose
+ * prints the measurements of every patch.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { join, extname, basename } from "path";
+import { parseArgs } from "util";
+import { $ } from "bun";
+import { tasksDir, listTasks, runTaskTests, testDirs } from "./lib/tasks";
+import { loadManifest, ManifestError } from "./lib/manifest";
+import { loadBaseline, checkBaseline, testId } from "./lib/baseline";
+import { parsePatch, splitByTask, rebaseFileDiff, formatPatch, type FileDiff } from "./lib/patch";
+import { createSandbox, removeSandbox } from "./lib/sandbox";
+import { stripProtected } from "./lib/tamper";
+import { formatLeaks } from "./lib/leaks";
+import { parseJobs, runPool } from "./lib/pool";
+import { taskReport, buildRunReport, writeReports, type TaskReport } from "./lib/report";
+import { formatScore, formatScoreTable } from "./lib/scoring";
+import { computePassAtK } from "./lib/passk";
+import { saveToHistory } from "./lib/history";
+import { formatQuality, measureTaskPatch } from "./lib/quality";
+import { FLAKY_MODES, flakyWeights, isFlaky, loadFlaky, withoutFlaky, type FlakyMode } from "./lib/flaky";
+
+const PATCH_EXTENSIONS = [".diff", ".patch"];
+
+interface EvaluationResult {
+  task: string;
+  sample?: string;
+  applied: boolean;
+  passed: boolean;
+  output?: string;
+  error?: string;
+  report: TaskReport;
+}
+
+/**
+ * Resolve a patch file name such as "task-001" or "task-001-content-length"
+ * to a task directory name.
+ */
+function resolveTask(name: string, tasks: string[]): string | undefined {
+  return tasks.find(t => t === name) ?? tasks.find(t => t.startsWith(`${name}-`));
+}
+
+function loadPatches(source: string, tasks: string[]): Map<string, FileDiff[]> {
+  const patches = new Map<string, FileDiff[]>();
+
+  if (statSync(source).isDirectory()) {
+    for (const file of readdirSync(source).sort()) {
+      if (!PATCH_EXTENSIONS.includes(extname(file))) continue;
+
+      const task = resolveTask(basename(file, extname(file)), tasks);
+      if (!task) {
+        console.warn(`⚠️  Ignoring ${file}: no matching task`);
+        continue;
+      }
+
+      const files = parsePatch(readFileSync(join(source, file), "utf8"));
+      patches.set(task, [...(patches.get(task) ?? []), ...files.map(f => rebaseFileDiff(f, task))]);
+    }
+  } else {
+    for (const [task, files] of splitByTask(parsePatch(readFileSync(source, "utf8")))) {
+      if (task === "" || !tasks.includes(task)) {
+        console.warn(`⚠️  Ignoring ${files.length} file(s) outside known tasks`);
+        continue;
+      }
+      patches.set(task, files.map(f => rebaseFileDiff(f, task)));
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Load the patches of every sample, one subdirectory of source per sample.
+ */
+function loadSamples(source: string, tasks: string[]): Map<string, Map<string, FileDiff[]>> {
+  const samples = new Map<string, Map<string, FileDiff[]>>();
+  for (const entry of readdirSync(source).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))) {
+    if (statSync(join(source, entry)).isDirectory()) {
+      samples.set(entry, loadPatches(join(source, entry), tasks));
+    }
+  }
+  return samples;
+}
+
+function parseK(value: string): number[] | undefined {
+  const ks = value.split(",").map(k => Number(k.trim()));
+  return ks.every(k => Number.isInteger(k) && k >= 1) ? [...new Set(ks)].sort((a, b) => a - b) : undefined;
+}
+
+function formatPassAtK(values: Record<string, number>): string {
+  return Object.entries(values)
+    .map(([k, value]) => `pass@${k} ${formatScore(value).padStart(6)}`)
+    .join("  ");
+}
+
+/**
+ * Whether bun test counted failures or errors its JUnit report does not
+ * list, such as a test file that threw while loading. Without bun's summary
+ * the run cannot be vouched for either.
+ */
+function hasUnlistedFailures(output: string | undefined, listed: number): boolean {
+  const failed = output?.match(/^\s*(\d+) fail$/m);
+  if (!failed) {
+    return true;
+  }
+  const errors = Number(output!.match(/^\s*(\d+) errors?$/m)?.[1] ?? 0);
+  return errors > 0 || Number(failed[1]) > listed;
+}
+
+async function evaluateTask(taskDir: string, files: FileDiff[], flakyMode: FlakyMode): Promise<EvaluationResult> {
+  const task = basename(taskDir);
+  const manifest = loadManifest(taskDir);
+  const flaky = flakyMode === "keep" ? undefined : loadFlaky(taskDir);
+  const recorded = loadBaseline(taskDir);
+  const baseline = recorded && flaky ? withoutFlaky(recorded, flaky) : recorded;
+  const { allowed, rejected, flagged } = stripProtected(files, manifest.strategy);
+  const rejectedHunks = rejected.length > 0 ? rejected : undefined;
+  const flaggedHunks = flagged.length > 0 ? flagged : undefined;
+
+  if (files.length === 0 || allowed.length === 0) {
+    const error = files.length === 0 ? "patch contains no file changes" : "every change in the patch touches protected files";
+    const report = { ...taskReport(task, manifest, { passed: false, error }), applied: false, rejectedHunks };
+    return { task, applied: false, passed: false, error, report };
+  }
+
+  const patch = formatPatch(allowed);
+  const sandbox = createSandbox(taskDir, { withoutReference: true });
+
+  try {
+    // Keep the patch next to the sandbox, not in it, so it cannot be picked up by the tests
+    const patchFile = join(sandbox, "..", "model.patch");
+    writeFileSync(patchFile, patch);
+
+    const apply = await $`cd ${sandbox} && git apply --whitespace=nowarn ${patchFile}`.quiet().nothrow();
+    if (apply.exitCode !== 0) {
+      const error = apply.stderr.toString().trim();
+      const report = { ...taskReport(task, manifest, { passed: false, error }), applied: false, patch, rejectedHunks };
+      return { task, applied: false, passed: false, error, report };
+    }
+
+    const result = await runTaskTests(sandbox, manifest, testDirs(sandbox));
+    const quality = measureTaskPatch(taskDir, sandbox, allowed, manifest.strategy);
+    const tests = result.tests ?? [];
+    const judged = baseline && !result.error && !result.skipped ? checkBaseline(baseline, tests) : undefined;
+    // Without a baseline, a run whose only failures are flaky tests counts as passed
+    const failing = tests.filter(t => t.status === "fail");
+    const onlyFlakyFailed =
+      !result.error &&
+      failing.length > 0 &&
+      failing.every(t => isFlaky(flaky, t)) &&
+      !hasUnlistedFailures(result.output, failing.length);
+    const passed = judged ? judged.resolved : result.passed || onlyFlakyFailed;
+    const flakyTests = flaky ? [...new Set(tests.filter(t => isFlaky(flaky, t)).map(testId))] : [];
+
+    return {
+      task,
+      applied: true,
+      passed,
+      output: result.output,
+      error: result.error,
+      report: {
+        ...taskReport(task, manifest, { ...result, passed }, flaky && flakyWeights(flaky, flakyMode)),
+        applied: true,
+        patch,
+        quality,
+        flaky: flakyTests.length > 0 ? { mode: flakyMode, tests: flakyTests } : undefined,
+        rejectedHunks,
+        flaggedHunks,
+        failToPass: judged?.failToPass,
+        passToPass: judged?.passToPass,
+      },
+    };
+  } finally {
+    removeSandbox(sandbox);
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      tasks: { type: "string", default: tasksDir },
+      verbose: { type: "boolean", default: false },
+      jobs: { type: "string", short: "j" },
+      json: { type: "string" },
+      junit: { type: "string" },
+      samples: { type: "boolean", default: false },
+      k: { type: "string", default: "1,5,10" },
+      model: { type: "string" },
+      flaky: { type: "string", default: "exclude" },
+      "no-history": { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const { verbose } = values;
+  const jobs = parseJobs(values.jobs);
+  const [source, ...only] = positionals;
+  const ks = parseK(values.k);
+
+  if (!source || !existsSync(source) || (values.samples && !statSync(source).isDirectory())) {
+    console.error(
+      "Usage: bun run evaluate <patch-dir|patch-file|samples-dir> [--model NAME] [--tasks DIR] [--samples] [--k 1,5,10] [--flaky MODE] [--verbose] [--jobs N] [--json FILE] [--junit FILE] [--no-history] [task-name...]",
+    );
+    process.exit(1);
+  }
+  if (!ks) {
+    console.error(`Invalid --k: ${values.k}`);
+    process.exit(1);
+  }
+  const flakyMode = values.flaky as FlakyMode;
+  if (!FLAKY_MODES.includes(flakyMode)) {
+    console.error(`Invalid --flaky: ${values.flaky} (one of ${FLAKY_MODES.join(", ")})`);
+    process.exit(1);
+  }
+
+  const tasks = listTasks(only, values.tasks);
+  const samples = values.samples ? loadSamples(source, tasks) : new Map([["", loadPatches(source, tasks)]]);
+  const candidates = [...samples]
+    .flatMap(([sample, patches]) => [...patches].map(([task, files]) => ({ task, sample: sample || undefined, files })))
+    .sort((a, b) => a.task.localeCompare(b.task));
+
+  if (candidates.length === 0) {
+    console.error(`No patches for known tasks found in ${source}`);
+    process.exit(1);
+  }
+
+  const label = (r: { task: string; sample?: string }) => (r.sample ? `${r.task} (sample ${r.sample})` : r.task);
+  const startedAt = new Date();
+  const results = await runPool(candidates, jobs, async ({ task, sample, files }) => {
+    let result: EvaluationResult;
+    try {
+      result = await evaluateTask(join(values.tasks, task), files, flakyMode);
+    } catch (error) {
+      // A broken task.json or baseline.json fails this task, not the whole run
+      const message = error instanceof ManifestError ? error.message : String(error);
+      const report = taskReport(task, undefined, { passed: false, error: message });
+      result = { task, applied: false, passed: false, error: message, report };
+    }
+    result.sample = sample;
+    result.report.sample = sample;
+
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines = [`\nEvaluating ${label(result)}...`];
+    const { score, split, failToPass, passToPass, quality, flaky, rejectedHunks, flaggedHunks, leaks } = result.report;
+    const hidden = split ? `, ${split.hidden.passed}/${split.hidden.passed + split.hidden.failed} hidden` : "";
+    const flakyCount = flaky ? `, ${flaky.tests.length} flaky ${flaky.mode === "exclude" ? "excluded" : "down-weighted"}` : "";
+    const tests = result.report.tests.length > 0 ? ` (${score.passed}/${score.passed + score.failed} tests${hidden}${flakyCount})` : "";
+    if (result.report.outcome === "skipped") {
+      lines.push(`  ⏭️  SKIPPED: ${result.report.skipReason}`);
+    } else if (result.report.applied === undefined) {
+      lines.push(`  ⚠️  ERROR: ${result.error}`);
+    } else if (!result.applied) {
+      lines.push(`  ❌ PATCH DID NOT APPLY`);
+      lines.push(`     ${result.error}`);
+    } else if (result.report.outcome === "timeout") {
+      lines.push(`  ⏱️  TIMED OUT: ${result.error}`);
+      if (verbose && result.output) {
+        lines.push(result.output);
+      }
+    } else if (result.passed) {
+      lines.push(`  ✅ RESOLVED${tests}`);
+    } else {
+      lines.push(`  ❌ FAILED${tests}, score ${formatScore(score.score)}`);
+      if (failToPass && passToPass) {
+        lines.push(
+          `     FAIL_TO_PASS ${failToPass.passed}/${failToPass.total}, PASS_TO_PASS ${passToPass.passed}/${passToPass.total}`,
+        );
+        if (verbose) {
+          lines.push(...[...failToPass.failing, ...passToPass.failing].map(id => `     - ${id}`));
+        }
+      }
+      if (result.error) {
+        lines.push(`     Error: ${result.error}`);
+      }
+      if (verbose && result.output) {
+        lines.push(result.output);
+      }
+    }
+    if (quality && verbose) {
+      lines.push(`  🔧 Patch: ${formatQuality(quality)}`);
+    }
+    if (quality && quality.specialCases.length > 0) {
+      lines.push(`  ⚠️  Special-cases test inputs:`);
+      lines.push(...quality.specialCases.map(c => `     - ${c.literal} at ${c.path}:${c.line}`));
+    }
+    if (rejectedHunks) {
+      lines.push(`  ⚠️  Rejected ${rejectedHunks.length} hunk(s) touching protected files:`);
+      lines.push(...rejectedHunks.map(h => `     - ${h.path} ${h.hunk}: ${h.reason}`));
+    }
+    if (flaggedHunks) {
+      lines.push(`  ⚠️  Deletes tests in ${flaggedHunks.length} hunk(s):`);
+      lines.push(...flaggedHunks.map(h => `     - ${h.path} ${h.hunk}: ${h.reason}`));
+    }
+    if (leaks) {
+      lines.push(`  ⚠️  Left behind:`);
+      lines.push(...formatLeaks(leaks).map(l => `     - ${l}`));
+    }
+    console.log(lines.join("\n"));
+
+    return result;
+  });
+
+  const model = values.model ?? basename(source.replace(/\/+$/, ""), extname(source));
+  const report = buildRunReport("evaluation", startedAt, results.map(r => r.report), model);
+  if (values.samples) {
+    report.passAtK = computePassAtK(report.tasks, ks, samples.size);
+  }
+  const skipped = results.filter(r => r.report.outcome === "skipped");
+  const resolved = results.filter(r => r.passed).length;
+
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(
+    `Results: ${resolved} resolved out of ${results.length - skipped.length} ${values.samples ? "samples" : "patched tasks"}` +
+      (skipped.length > 0 ? ` (${skipped.length} skipped)` : ""),
+  );
+  console.log(`Partial-credit score: ${formatScore(report.scores.overall.score)}`);
+  console.log(formatScoreTable(report.scores).join("\n"));
+
+  if (report.passAtK) {
+    const { overall, byCategory } = report.passAtK;
+    const width = Math.max(7, ...Object.keys(byCategory).map(name => name.length));
+    console.log(`\npass@k over ${samples.size} sample(s) per task:`);
+    console.log(`  ${"overall".padEnd(width)}  ${formatPassAtK(overall)}`);
+    for (const name of Object.keys(byCategory).sort()) {
+      console.log(`  ${name.padEnd(width)}  ${formatPassAtK(byCategory[name]!)}`);
+    }
+    const incomplete = report.passAtK.tasks.filter(t => t.missing > 0);
+    if (incomplete.length > 0) {
+      console.log(`  ⚠️  ${incomplete.length} task(s) lack a patch in some samples; those samples count as failed`);
+    }
+  }
+
+  const unresolved = results.filter(r => !r.passed && r.report.outcome !== "skipped");
+  if (unresolved.length > 0) {
+    console.log(`\nUnresolved tasks:`);
+    for (const r of unresolved) {
+      const detail =
+        r.report.applied === undefined
+          ? `error: ${r.error}`
+          : !r.applied
+            ? "patch did not apply"
+            : r.report.outcome === "timeout"
+              ? "timed out"
+              : formatScore(r.report.score.score);
+      console.log(`  - ${label(r)}: ${detail}`);
+    }
+  }
+
+  const measured = results.filter(r => r.report.quality);
+  if (measured.length > 0) {
+    const similarity = measured.reduce((sum, r) => sum + r.report.quality!.astSimilarity, 0) / measured.length;
+    const outside = measured.filter(r => r.report.quality!.linesOutsideFix > 0).length;
+    console.log(
+      `\nPatch quality: mean AST similarity to the reference ${formatScore(similarity)} over ${measured.length} applied patch(es), ` +
+        `${outside} with lines changed outside the reference fix`,
+    );
+  }
+
+  const specialCasing = measured.filter(r => r.report.quality!.specialCases.length > 0);
+  if (specialCasing.length > 0) {
+    console.log(`\nPatches special-casing test inputs:`);
+    for (const r of specialCasing) {
+      console.log(`  - ${label(r)}: ${r.report.quality!.specialCases.map(c => c.literal).join(", ")}`);
+    }
+  }
+
+  const tampered = results.filter(r => r.report.rejectedHunks);
+  if (tampered.length > 0) {
+    console.log(`\nPatches with rejected hunks:`);
+    for (const r of tampered) {
+      const paths = [...new Set(r.report.rejectedHunks!.map(h => h.path))];
+      console.log(`  - ${label(r)}: ${r.report.rejectedHunks!.length} hunk(s) in ${paths.join(", ")}`);
+    }
+  }
+
+  const hollowed = results.filter(r => r.report.flaggedHunks);
+  if (hollowed.length > 0) {
+    console.log(`\nPatches deleting tests:`);
+    for (const r of hollowed) {
+      const paths = [...new Set(r.report.flaggedHunks!.map(h => h.path))];
+      console.log(`  - ${label(r)}: ${r.report.flaggedHunks!.length} hunk(s) in ${paths.join(", ")}`);
+    }
+  }
+
+  const leaky = results.filter(r => r.report.leaks);
+  if (leaky.length > 0) {
+    console.log(`\nTasks leaving resources behind:`);
+    for (const r of leaky) {
+      console.log(`  - ${label(r)}: ${formatLeaks(r.report.leaks!).join("; ")}`);
+    }
+  }
+
+  const unlisted = [...new Set(results.map(r => r.task))].filter(t => !existsSync(join(values.tasks, t, "baseline.json")));
+  if (unlisted.length > 0) {
+    console.log(`\nTasks without a baseline.json, judged by their whole test run (see the README's known-broken tasks):`);
+    for (const task of unlisted) {
+      console.log(`  - ${task}`);
+    }
+  }
+
+  if (skipped.length > 0) {
+    console.log(`\nSkipped tasks:`);
+    for (const r of skipped) {
+      console.log(`  - ${label(r)}: ${r.report.skipReason}`);
+    }
+  }
+
+  writeReports(report, { json: values.json, junit: values.junit });
+  if (!values["no-history"]) {
+    saveToHistory(report);
+  }
+}
+
+main();
@@ -0,0 +1,185 @@
+#!/usr/bin/env bun
+/**
+ * Export a clean copy of each task with its hints stripped (see lib/hints.ts).
+ *
+ * Usage: bun run export [--out DIR] [--no-verify] [--jobs N] [task-name...]
+ *
+ * Tasks are copied to DIR/<task> (default out/export) with hint comments
+ * removed from src/, test/, hidden/ and solution/, and the bug sections
+ * removed from README.md. Unless --no-verify is given, each export is then tested: the
+ * bug must still reproduce against src/ and the solution must still pass.
+ * For every task the tests must fail on src/ and pass on the solution; for a
+ * task with a baseline, every FAIL_TO_PASS test must also fail on src/ and
+ * the whole baseline pass on the solution.
+ */
+
+import { cpSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { extname, join } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks, testBuggy, testSolution } from "./lib/tasks";
+import { loadManifest, ManifestError } from "./lib/manifest";
+import { checkBaseline, loadBaseline } from "./lib/baseline";
+import { stripHintComments, stripReadmeHints } from "./lib/hints";
+import { parseJobs, runPool } from "./lib/pool";
+
+const CODE_DIRS = ["src", "test", "hidden", "solution"];
+const CODE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+interface Verification {
+  problems: string[];
+  /** Set when the tests could not run, e.g. for lack of a service */
+  skipReason?: string;
+}
+
+/**
+ * Copy a task to dest and strip its hints. Returns the number of files changed.
+ */
+function exportTask(taskDir: string, dest: string): number {
+  rmSync(dest, { recursive: true, force: true });
+  cpSync(taskDir, dest, { recursive: true });
+
+  const rewrite = (path: string, strip: (text: string) => string): number => {
+    const text = readFileSync(path, "utf8");
+    const stripped = strip(text);
+    if (stripped === text) return 0;
+    writeFileSync(path, stripped);
+    return 1;
+  };
+
+  let changed = rewrite(join(dest, "README.md"), stripReadmeHints);
+  for (const dir of CODE_DIRS) {
+    const root = join(dest, dir);
+    let files: string[];
+    try {
+      files = readdirSync(root, { recursive: true, encoding: "utf8" });
+    } catch {
+      continue;
+    }
+    for (const file of files) {
+      const path = join(root, file);
+      if (CODE_EXTENSIONS.includes(extname(file)) && statSync(path).isFile()) {
+        changed += rewrite(path, stripHintComments);
+      }
+    }
+  }
+  return changed;
+}
+
+async function verifyExport(dir: string): Promise<Verification> {
+  const buggy = await testBuggy(dir);
+  const solution = await testSolution(dir);
+
+  if (buggy.skipped || solution.skipped) {
+    return { problems: [], skipReason: buggy.skipReason ?? solution.skipReason };
+  }
+
+  const problems: string[] = [];
+  const baseline = loadBaseline(dir);
+
+  if (baseline) {
+    const before = checkBaseline(baseline, buggy.tests ?? []);
+    const after = checkBaseline(baseline, solution.tests ?? []);
+    if (before.failToPass.passed > 0) {
+      problems.push(`${before.failToPass.passed} FAIL_TO_PASS test(s) now pass against src/`);
+    }
+    if (!after.resolved) {
+      const failing = [...after.failToPass.failing, ...after.passToPass.failing];
+      problems.push(`baseline tests fail against solution/: ${failing.join(", ")}`);
+    }
+  }
+  if (buggy.passed) {
+    problems.push("tests pass against src/, so the bug no longer reproduces");
+  }
+  if (!solution.passed) {
+    problems.push(`tests fail against solution/${solution.error ? `: ${solution.error}` : ""}`);
+  }
+
+  return { problems };
+}
+
+async function main() {
+  const { values, positionals: only } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      out: { type: "string", default: join("out", "export") },
+      "no-verify": { type: "boolean", default: false },
+      jobs: { type: "string", short: "j" },
+    },
+    allowPositionals: true,
+  });
+  const verify = !values["no-verify"];
+  const jobs = parseJobs(values.jobs);
+  const tasks = listTasks(only);
+
+  const unknown = only.filter(t => !tasks.includes(t));
+  if (unknown.length > 0) {
+    console.error(`Unknown tasks: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  const broken: Record<string, string[]> = {};
+  let skipped = 0;
+
+  console.log(`Exporting ${tasks.length} tasks to ${values.out}${verify ? ` and verifying with ${jobs} worker(s)` : ""}...`);
+
+  await runPool(tasks, jobs, async task => {
+    const dest = join(values.out, task);
+    let changed: number;
+    try {
+      loadManifest(join(tasksDir, task));
+      changed = exportTask(join(tasksDir, task), dest);
+    } catch (error) {
+      if (error instanceof ManifestError) {
+        broken[task] = [error.message];
+        console.log(`\n${task}...\n  ❌ ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines = [`\n${task}...`, `  📄 ${changed} file(s) stripped`];
+    if (verify) {
+      let result: Verification;
+      try {
+        result = await verifyExport(dest);
+      } catch (error) {
+        result = { problems: [String(error)] };
+      }
+
+      if (result.skipReason) {
+        skipped++;
+        lines.push(`  ⏭️  NOT VERIFIED: ${result.skipReason}`);
+      } else if (result.problems.length > 0) {
+        broken[task] = result.problems;
+        lines.push(`  ❌ BROKEN`);
+        for (const p of result.problems) {
+          lines.push(`     - ${p}`);
+        }
+      } else {
+        lines.push(`  ✅ VERIFIED`);
+      }
+    }
+    console.log(lines.join("\n"));
+  });
+
+  const failed = Object.keys(broken).length;
+
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(
+    verify
+      ? `Results: ${tasks.length - failed - skipped} verified, ${failed} broken, ${skipped} not verified out of ${tasks.length} exported`
+      : `Results: ${tasks.length - failed} exported to ${values.out} (not verified)`,
+  );
+
+  if (failed > 0) {
+    console.log(`\nBroken exports:`);
+    for (const [task, problems] of Object.entries(broken).sort()) {
+      console.log(`  - ${task}: ${problems.join("; ")}`);
+    }
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
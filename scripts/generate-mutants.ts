@@ -0,0 +1,251 @@
+#!/usr/bin/env bun
+/**
+ * Generate new task variants by putting mutations into reference solutions
+ * (see lib/mutate.ts).
+ *
+ * Usage: bun run mutants [--out DIR] [--max N] [--operators a,b] [--jobs N] [task-name...]
+ *
+ * For each task, mutants of its solution/*.ts files are tried in turn, one
+ * operator after another. A mutant is kept only if the task's tests kill it:
+ * at least one test that passes against the solution fails against the
+ * mutant, and the run does not time out. Up to N (default 3) mutants per
+ * task are kept, out of at most 4N tried.
+ *
+ * Each kept mutant becomes a task directory DIR/<task>-mNN (default
+ * out/mutants) with the mutant as src/, the original tests and solution,
+ * a generated README.md, a task.json, a baseline.json and a mutation.json
+ * recording what was changed (its line number is in the solution file).
+ * Hint comments are stripped from src/, test/ and hidden/.
+ * Test-focused tasks are skipped, their bug lives in test/.
+ */
+
+import { cpSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks, testBuggy, testSolution, type TestRunResult } from "./lib/tasks";
+import { loadManifest, type TaskManifest } from "./lib/manifest";
+import { computeBaseline, writeBaseline, type TestBaseline } from "./lib/baseline";
+import { stripHintComments } from "./lib/hints";
+import { applyMutant, findMutants, formatMutant, interleave, OPERATORS, type Mutant, type Operator } from "./lib/mutate";
+import { parseJobs, runPool } from "./lib/pool";
+
+interface Candidate extends Mutant {
+  /** Relative to solution/ */
+  file: string;
+}
+
+function listSourceFiles(dir: string): string[] {
+  return readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .filter(f => /\.tsx?$/.test(f) && !/\.(test|spec)\.tsx?$/.test(f))
+    .sort();
+}
+
+function findCandidates(taskDir: string, operators: Operator[]): Candidate[] {
+  const candidates: Candidate[] = [];
+  for (const file of listSourceFiles(join(taskDir, "solution"))) {
+    const source = readFileSync(join(taskDir, "solution", file), "utf8");
+    for (const mutant of findMutants(source, file)) {
+      if (operators.includes(mutant.operator)) candidates.push({ ...mutant, file });
+    }
+  }
+  return interleave(candidates);
+}
+
+function stripDirectory(dir: string): void {
+  if (!existsSync(dir)) return;
+  for (const file of readdirSync(dir, { recursive: true, encoding: "utf8" })) {
+    if (/\.[cm]?[jt]sx?$/.test(file)) {
+      const path = join(dir, file);
+      writeFileSync(path, stripHintComments(readFileSync(path, "utf8")));
+    }
+  }
+}
+
+/**
+ * Lay out a variant of the task in taskDir with the mutant as its src/.
+ */
+function writeVariant(taskDir: string, dest: string, manifest: TaskManifest, candidate: Candidate): void {
+  rmSync(dest, { recursive: true, force: true });
+  mkdirSync(dest, { recursive: true });
+
+  // Test fixtures and other support files come along, the harness files are rewritten
+  for (const entry of readdirSync(taskDir)) {
+    if (!["src", "README.md", "task.json", "baseline.json"].includes(entry)) {
+      cpSync(join(taskDir, entry), join(dest, entry), { recursive: true });
+    }
+  }
+
+  // src/ starts as the fixed code, the way the solution is put in place for testing
+  if (manifest.strategy === "copy") {
+    cpSync(join(taskDir, "src"), join(dest, "src"), { recursive: true });
+  }
+  cpSync(join(taskDir, "solution"), join(dest, "src"), { recursive: true });
+
+  const source = readFileSync(join(taskDir, "solution", candidate.file), "utf8");
+  writeFileSync(join(dest, "src", candidate.file), applyMutant(source, candidate));
+  stripDirectory(join(dest, "src"));
+  stripDirectory(join(dest, "test"));
+  stripDirectory(join(dest, "hidden"));
+}
+
+function variantManifest(manifest: TaskManifest, name: string, number: string): TaskManifest {
+  return { ...manifest, id: name, title: `${manifest.title} (mutant ${number})` };
+}
+
+function variantReadme(dest: string, original: TaskManifest, variant: TaskManifest, file: string, baseline: TestBaseline): string {
+  const listFiles = (dir: string) => readdirSync(dir, { recursive: true, encoding: "utf8" }).sort();
+  // Held-out test names must not reach the model through the README
+  const visible = baseline.FAIL_TO_PASS.filter(id => !id.startsWith("hidden/"));
+  const held = baseline.FAIL_TO_PASS.length - visible.length;
+  const lines = [
+    `# Task ${variant.id}: ${variant.title}`,
+    "",
+    "## Problem Description",
+    "",
+    `\`src/${file}\` was derived from a working implementation of "${original.title}" (${original.id}), ` +
+      "and a change to it broke the tests listed below. Find the bug and fix it without changing the tests.",
+    "",
+    "## Failing Tests",
+    "",
+    ...visible.map(id => `- \`${id}\``),
+    ...(held > 0 ? [`- ${held} held-out test(s)`] : []),
+    "",
+    "## Files",
+    "",
+    ...listFiles(join(dest, "src")).map(f => `- \`src/${f}\``),
+    ...listFiles(join(dest, "test")).map(f => `- \`test/${f}\``),
+    "",
+    "## Expected Behavior",
+    "",
+    "All tests in `test/` pass.",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Whether the tests kill a mutant, and the baseline of the variant if so.
+ */
+function killedBy(run: TestRunResult, solution: TestRunResult): TestBaseline | undefined {
+  if (run.skipped || run.timedOut || !run.tests) {
+    return undefined;
+  }
+  const baseline = computeBaseline(run.tests, solution.tests ?? []);
+  return baseline.FAIL_TO_PASS.length > 0 ? baseline : undefined;
+}
+
+async function main() {
+  const { values, positionals: only } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      out: { type: "string", default: join("out", "mutants") },
+      max: { type: "string", default: "3" },
+      operators: { type: "string", default: OPERATORS.join(",") },
+      jobs: { type: "string", short: "j" },
+    },
+    allowPositionals: true,
+  });
+
+  const max = Number(values.max);
+  if (!Number.isInteger(max) || max < 1) {
+    console.error(`Invalid mutant count: ${values.max}`);
+    process.exit(1);
+  }
+  const operators = values.operators.split(",").map(op => op.trim()) as Operator[];
+  const invalid = operators.filter(op => !OPERATORS.includes(op));
+  if (invalid.length > 0) {
+    console.error(`Unknown operators: ${invalid.join(", ")} (expected ${OPERATORS.join(", ")})`);
+    process.exit(1);
+  }
+
+  const jobs = parseJobs(values.jobs);
+  const tasks = listTasks(only);
+  const unknown = only.filter(t => !tasks.includes(t));
+  if (unknown.length > 0) {
+    console.error(`Unknown tasks: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  let generated = 0;
+  let tried = 0;
+  const skipped: Record<string, string> = {};
+
+  console.log(`Generating up to ${max} mutant(s) for ${tasks.length} tasks with ${jobs} worker(s)...`);
+
+  await runPool(tasks, jobs, async task => {
+    const taskDir = join(tasksDir, task);
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines = [`\n${task}...`];
+
+    const skip = (reason: string) => {
+      skipped[task] = reason;
+      lines.push(`  ⏭️  SKIPPED: ${reason}`);
+      console.log(lines.join("\n"));
+    };
+
+    let manifest: TaskManifest;
+    try {
+      manifest = loadManifest(taskDir);
+    } catch (error) {
+      return skip(String(error));
+    }
+    if (manifest.strategy === "test-focused") {
+      return skip("test-focused, the bug lives in test/");
+    }
+
+    const solution = await testSolution(taskDir);
+    if (solution.skipped) {
+      return skip(solution.skipReason ?? "tests could not run");
+    }
+    if (!solution.passed) {
+      return skip("tests fail against solution/");
+    }
+
+    const candidates = findCandidates(taskDir, operators).slice(0, 4 * max);
+    if (candidates.length === 0) {
+      return skip("no mutants found");
+    }
+
+    let kept = 0;
+    for (const candidate of candidates) {
+      if (kept === max) break;
+      tried++;
+
+      const number = `m${String(kept + 1).padStart(2, "0")}`;
+      const name = `${task}-${number}`;
+      const dest = join(values.out, name);
+      const manifestOut = variantManifest(manifest, name, number);
+      writeVariant(taskDir, dest, manifestOut, candidate);
+      writeFileSync(join(dest, "task.json"), JSON.stringify(manifestOut, null, 2) + "\n");
+
+      const description = `${candidate.file}: ${formatMutant(candidate)}`;
+      const baseline = killedBy(await testBuggy(dest), solution);
+      if (!baseline) {
+        rmSync(dest, { recursive: true, force: true });
+        lines.push(`  ➖ survived ${description}`);
+        continue;
+      }
+
+      writeBaseline(dest, baseline);
+      writeFileSync(join(dest, "README.md"), variantReadme(dest, manifest, manifestOut, candidate.file, baseline));
+      const { operator, line, original, mutated } = candidate;
+      const record = { task, file: `src/${candidate.file}`, solution: `solution/${candidate.file}`, operator, line, original, mutated };
+      writeFileSync(join(dest, "mutation.json"), JSON.stringify(record, null, 2) + "\n");
+
+      kept++;
+      generated++;
+      lines.push(`  ✅ ${name}: ${description} (${baseline.FAIL_TO_PASS.length} test(s) fail)`);
+    }
+
+    if (kept === 0) {
+      lines.push(`  ⚠️  no mutant out of ${candidates.length} was killed by the tests`);
+    }
+    console.log(lines.join("\n"));
+  });
+
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(
+    `Results: ${generated} variants written to ${values.out} from ${tried} mutants tried, ${Object.keys(skipped).length} tasks skipped`,
+  );
+}
+
+main();
@@ -0,0 +1,50 @@
+#!/usr/bin/env bun
+/**
+ * Regenerate the category and difficulty tables in README.md from the
+ * task manifests.
+ *
+ * Usage: bun run readme [--check]
+ *
+ * With --check, README.md is left untouched and the command exits non-zero
+ * if the tables are out of date.
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tasksDir, listTasks } from "./lib/tasks";
+import { loadManifest, ManifestError } from "./lib/manifest";
+import { renderReadme } from "./lib/readme";
+
+const readmePath = join(import.meta.dir, "..", "README.md");
+
+function main() {
+  const check = process.argv.includes("--check");
+
+  let manifests;
+  try {
+    manifests = listTasks().map(task => loadManifest(join(tasksDir, task)));
+  } catch (error) {
+    if (error instanceof ManifestError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const current = readFileSync(readmePath, "utf8");
+  const updated = renderReadme(current, manifests);
+
+  if (check) {
+    if (updated !== current) {
+      console.error("❌ README.md tables are out of date, run `bun run readme`");
+      process.exit(1);
+    }
+    console.log("✅ README.md tables are up to date");
+    return;
+  }
+
+  writeFileSync(readmePath, updated);
+  console.log(`✅ Updated README.md from ${manifests.length} task manifests`);
+}
+
+main();
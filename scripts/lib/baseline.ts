@@ -0,0 +1,126 @@
+/**
+ * Fail-to-pass baselines (tasks/task-XXX-name/baseline.json).
+ *
+ * A baseline records which tests the bug breaks and which it leaves alone:
+ * - FAIL_TO_PASS: tests that fail against the buggy src/ and pass against
+ *   the solution. A fix must make all of them pass.
+ * - PASS_TO_PASS: tests that pass against both. A fix must not break them.
+ *
+ * Baselines are generated by `bun run baseline` from actual test runs, so a
+ * task whose bug stopped reproducing shows up as an empty FAIL_TO_PASS list
+ * instead of silently handing out free points.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { TestCaseResult } from "./junit";
+
+export interface TestBaseline {
+  FAIL_TO_PASS: string[];
+  PASS_TO_PASS: string[];
+}
+
+export interface TestListResult {
+  passed: number;
+  total: number;
+  /** Ids of the listed tests that did not pass, including ones that did not run */
+  failing: string[];
+}
+
+export interface BaselineResult {
+  /** Every FAIL_TO_PASS and PASS_TO_PASS test passed */
+  resolved: boolean;
+  failToPass: TestListResult;
+  passToPass: TestListResult;
+}
+
+/**
+ * Identify a test across runs as "<file> > <describe> > <name>".
+ *
+ * Test-focused tasks run their fixed tests from solution/ rather than test/,
+ * so the directory is left out to match the two copies of a file.
+ */
+export function testId(test: TestCaseResult): string {
+  return `${test.file.replace(/^(test|solution)\//, "")} > ${test.name}`;
+}
+
+/**
+ * Map test ids to whether they passed. A test that appears more than once
+ * (duplicate names) only counts as passed if every occurrence did.
+ */
+export function testStatuses(tests: TestCaseResult[]): Map<string, boolean> {
+  const passed = new Map<string, boolean>();
+  for (const test of tests) {
+    const id = testId(test);
+    passed.set(id, (passed.get(id) ?? true) && test.status === "pass");
+  }
+  return passed;
+}
+
+/**
+ * Derive a baseline from a run against the buggy src/ and one against the
+ * solution. Tests that do not pass against the solution are left out of
+ * both lists; callers should treat them as a broken task.
+ */
+export function computeBaseline(buggy: TestCaseResult[], solution: TestCaseResult[]): TestBaseline {
+  const before = testStatuses(buggy);
+  const baseline: TestBaseline = { FAIL_TO_PASS: [], PASS_TO_PASS: [] };
+
+  for (const [id, passed] of testStatuses(solution)) {
+    if (!passed) continue;
+    (before.get(id) ? baseline.PASS_TO_PASS : baseline.FAIL_TO_PASS).push(id);
+  }
+
+  baseline.FAIL_TO_PASS.sort();
+  baseline.PASS_TO_PASS.sort();
+  return baseline;
+}
+
+function checkList(ids: string[], passed: Map<string, boolean>): TestListResult {
+  const failing = ids.filter(id => !passed.get(id));
+  return { passed: ids.length - failing.length, total: ids.length, failing };
+}
+
+/**
+ * Judge a test run against a baseline.
+ */
+export function checkBaseline(baseline: TestBaseline, tests: TestCaseResult[]): BaselineResult {
+  const passed = testStatuses(tests);
+  const failToPass = checkList(baseline.FAIL_TO_PASS, passed);
+  const passToPass = checkList(baseline.PASS_TO_PASS, passed);
+
+  return {
+    resolved: failToPass.failing.length === 0 && passToPass.failing.length === 0,
+    failToPass,
+    passToPass,
+  };
+}
+
+function isIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === "string" && v.length > 0);
+}
+
+/**
+ * Read the baseline of the task in taskDir, or undefined if it has none.
+ * Throws if baseline.json exists but is malformed.
+ */
+export function loadBaseline(taskDir: string): TestBaseline | undefined {
+  const path = join(taskDir, "baseline.json");
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  const data = JSON.parse(readFileSync(path, "utf8"));
+  if (!isIdList(data?.FAIL_TO_PASS) || !isIdList(data?.PASS_TO_PASS)) {
+    throw new Error(`${path}: FAIL_TO_PASS and PASS_TO_PASS must be arrays of test ids`);
+  }
+  return { FAIL_TO_PASS: data.FAIL_TO_PASS, PASS_TO_PASS: data.PASS_TO_PASS };
+}
+
+export function formatBaseline(baseline: TestBaseline): string {
+  return JSON.stringify(baseline, null, 2) + "\n";
+}
+
+export function writeBaseline(taskDir: string, baseline: TestBaseline): void {
+  writeFileSync(join(taskDir, "baseline.json"), formatBaseline(baseline));
+}
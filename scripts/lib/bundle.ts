@@ -0,0 +1,187 @@
+/**
+ * Model input bundles.
+ *
+ * A bundle holds exactly what the README's Input Format says a model
+ * receives for a task: its README.md, the buggy src/ files and, unless
+ * excluded, the test/ files, plus the command that runs the tests. Bundles
+ * are built deterministically so every team evaluates on identical inputs.
+ *
+ * Never included: solution/, the held-out hidden/ tests, task.json,
+ * baseline.json and flaky.json.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { join, basename, extname } from "path";
+import type { TaskManifest } from "./manifest";
+
+export type FileRole = "readme" | "source" | "test";
+
+export interface BundleFile {
+  /** Relative to the task directory */
+  path: string;
+  role: FileRole;
+  content: string;
+  /** Set if the content was cut to respect the token cap */
+  truncated?: boolean;
+}
+
+export interface PromptBundle {
+  task: string;
+  title: string;
+  category: string;
+  difficulty: string;
+  instructions: string;
+  /** Run from the task directory */
+  testCommand: string;
+  files: BundleFile[];
+  /** Files left out entirely to respect the token cap */
+  omitted: string[];
+  /** Estimated token count of the file contents */
+  tokens: number;
+}
+
+export interface BundleOptions {
+  /** Include test/ files; always true for test-focused tasks, whose bug is in test/ */
+  tests: boolean;
+  /** Cap on the estimated tokens of the file contents */
+  maxTokens?: number;
+}
+
+const INSTRUCTIONS =
+  "Fix the bug described in README.md. Respond with a unified diff against the files below, " +
+  "using paths relative to the task directory. The tests must pass when run with the test command.";
+
+// Rough but stable: about four characters per token for code and English
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function listFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .filter(f => statSync(join(dir, f)).isFile())
+    .sort();
+}
+
+function isText(content: Buffer): boolean {
+  return !content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Collect the files of a task in bundle order: README, sources, tests.
+ */
+function collectFiles(taskDir: string, includeTests: boolean): BundleFile[] {
+  const files: BundleFile[] = [];
+  const add = (path: string, role: FileRole) => {
+    const content = readFileSync(join(taskDir, path));
+    // Binary fixtures cannot be shown to a model as text
+    if (isText(content)) {
+      files.push({ path, role, content: content.toString("utf8") });
+    }
+  };
+
+  add("README.md", "readme");
+  for (const f of listFiles(join(taskDir, "src"))) add(join("src", f), "source");
+  if (includeTests) {
+    for (const f of listFiles(join(taskDir, "test"))) add(join("test", f), "test");
+  }
+  return files;
+}
+
+/**
+ * Keep files in order until the cap is reached. The file that crosses it is
+ * cut at a line boundary, the ones after it are omitted.
+ */
+function applyCap(files: BundleFile[], maxTokens: number): { files: BundleFile[]; omitted: string[] } {
+  const kept: BundleFile[] = [];
+  let budget = maxTokens * CHARS_PER_TOKEN;
+
+  for (const [i, file] of files.entries()) {
+    if (file.content.length <= budget) {
+      kept.push(file);
+      budget -= file.content.length;
+      continue;
+    }
+
+    const cut = file.content.lastIndexOf("\n", budget);
+    if (cut > 0) {
+      kept.push({ ...file, content: file.content.slice(0, cut + 1), truncated: true });
+      return { files: kept, omitted: files.slice(i + 1).map(f => f.path) };
+    }
+    return { files: kept, omitted: files.slice(i).map(f => f.path) };
+  }
+
+  return { files: kept, omitted: [] };
+}
+
+export function buildBundle(taskDir: string, manifest: TaskManifest, options: BundleOptions): PromptBundle {
+  const includeTests = options.tests || manifest.strategy === "test-focused";
+  let files = collectFiles(taskDir, includeTests);
+  let omitted: string[] = [];
+
+  if (options.maxTokens !== undefined) {
+    ({ files, omitted } = applyCap(files, options.maxTokens));
+  }
+
+  return {
+    task: basename(taskDir),
+    title: manifest.title,
+    category: manifest.category,
+    difficulty: manifest.difficulty,
+    instructions: INSTRUCTIONS,
+    testCommand: "bun test test/",
+    files,
+    omitted,
+    tokens: files.reduce((n, f) => n + estimateTokens(f.content), 0),
+  };
+}
+
+const LANGUAGES: Record<string, string> = {
+  ".ts": "ts",
+  ".tsx": "tsx",
+  ".js": "js",
+  ".json": "json",
+  ".md": "markdown",
+  ".html": "html",
+  ".css": "css",
+  ".toml": "toml",
+};
+
+/**
+ * A code fence longer than any backtick run in the content, so nested
+ * fences (README code blocks) cannot end it early.
+ */
+function fence(content: string): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+export function renderMarkdown(bundle: PromptBundle): string {
+  const lines = [
+    `# ${bundle.task}: ${bundle.title}`,
+    "",
+    bundle.instructions,
+    "",
+    `Test command (run from the task directory): \`${bundle.testCommand}\``,
+  ];
+
+  for (const file of bundle.files) {
+    const marker = fence(file.content);
+    lines.push("", `## ${file.path}${file.truncated ? " (truncated)" : ""}`, "");
+    lines.push(`${marker}${LANGUAGES[extname(file.path)] ?? ""}`, file.content.replace(/\n$/, ""), marker);
+  }
+
+  if (bundle.omitted.length > 0) {
+    lines.push("", `Omitted to fit the size limit: ${bundle.omitted.join(", ")}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function renderJson(bundle: PromptBundle): string {
+  return JSON.stringify(bundle, null, 2) + "\n";
+}
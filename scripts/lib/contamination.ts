@@ -0,0 +1,104 @@
+/**
+ * Comparison of a model's runs on the original and perturbed task sets.
+ *
+ * The perturbed copies (see perturb.ts) are the same problems in different
+ * words, so a model that really reads the code scores about the same on
+ * both. A task the model resolves in the original but not in the perturbed
+ * copy, or whose score drops by more than the threshold, hints that the
+ * model has seen the original before.
+ */
+
+import type { RunReport, TaskOutcome, TaskReport } from "./report";
+
+export interface TaskComparison {
+  task: string;
+  category?: string;
+  original: { outcome: TaskOutcome; score: number };
+  perturbed: { outcome: TaskOutcome; score: number };
+  /** Perturbed score minus original score */
+  delta: number;
+  /** Resolved only in the original, or scored lower by more than the threshold */
+  suspicious: boolean;
+}
+
+export interface GroupComparison {
+  tasks: number;
+  originalResolved: number;
+  perturbedResolved: number;
+  /** Mean task scores */
+  originalScore: number;
+  perturbedScore: number;
+  delta: number;
+}
+
+export interface ContaminationReport {
+  original: { startedAt: string; bunVersion: string };
+  perturbed: { startedAt: string; bunVersion: string };
+  threshold: number;
+  overall: GroupComparison;
+  byCategory: Record<string, GroupComparison>;
+  tasks: TaskComparison[];
+  /** Tasks skipped or missing in either run, left out of the comparison */
+  unmatched: string[];
+}
+
+function compareGroup(tasks: TaskComparison[]): GroupComparison {
+  const mean = (scores: number[]) => (scores.length > 0 ? scores.reduce((n, s) => n + s, 0) / scores.length : 0);
+  const originalScore = mean(tasks.map(t => t.original.score));
+  const perturbedScore = mean(tasks.map(t => t.perturbed.score));
+
+  return {
+    tasks: tasks.length,
+    originalResolved: tasks.filter(t => t.original.outcome === "pass").length,
+    perturbedResolved: tasks.filter(t => t.perturbed.outcome === "pass").length,
+    originalScore,
+    perturbedScore,
+    delta: perturbedScore - originalScore,
+  };
+}
+
+/**
+ * Compare two evaluation runs task by task. Only tasks that ran in both are
+ * compared.
+ */
+export function compareRuns(original: RunReport, perturbed: RunReport, threshold: number): ContaminationReport {
+  const ran = (report: RunReport) =>
+    new Map(report.tasks.filter(t => t.outcome !== "skipped").map(t => [t.task, t] as [string, TaskReport]));
+  const before = ran(original);
+  const after = ran(perturbed);
+
+  const tasks: TaskComparison[] = [];
+  for (const [task, o] of before) {
+    const p = after.get(task);
+    if (!p) continue;
+    const delta = p.score.score - o.score.score;
+    tasks.push({
+      task,
+      category: o.category,
+      original: { outcome: o.outcome, score: o.score.score },
+      perturbed: { outcome: p.outcome, score: p.score.score },
+      delta,
+      suspicious: (o.outcome === "pass" && p.outcome !== "pass") || delta < -threshold,
+    });
+  }
+  tasks.sort((a, b) => a.task.localeCompare(b.task));
+
+  const categories = new Map<string, TaskComparison[]>();
+  for (const t of tasks) {
+    const name = t.category ?? "Unknown";
+    categories.set(name, [...(categories.get(name) ?? []), t]);
+  }
+
+  const all = [...original.tasks, ...perturbed.tasks].map(t => t.task);
+  const compared = new Set(tasks.map(t => t.task));
+
+  return {
+    original: { startedAt: original.startedAt, bunVersion: original.bunVersion },
+    perturbed: { startedAt: perturbed.startedAt, bunVersion: perturbed.bunVersion },
+    threshold,
+    overall: compareGroup(tasks),
+    byCategory: Object.fromEntries([...categories].map(([name, members]) => [name, compareGroup(members)])),
+    tasks,
+    unmatched: [...new Set(all)].filter(t => !compared.has(t)).sort(),
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Static HTML dashboard of run reports.
+ *
+ * Each run (one RunReport, usually one model) becomes a column of a task ×
+ * run matrix on the index page, next to per-category score bars, in the
+ * order of the README's category table, and a per-difficulty breakdown.
+ * Every task gets a drill-down page with, per run, its outcome, the tests
+ * that failed with their messages, the captured test output and the patch
+ * that was applied. Pages are self-contained: inline CSS, no scripts.
+ */
+
+import type { Database } from "bun:sqlite";
+import { latestRunPerModel, loadReport } from "./history";
+import { DIFFICULTIES } from "./manifest";
+import { formatQuality } from "./quality";
+import type { RunReport, TaskOutcome, TaskReport } from "./report";
+import { formatScore, type GroupScore } from "./scoring";
+
+export interface DashboardRun {
+  /** Column heading, e.g. the model's name */
+  name: string;
+  report: RunReport;
+}
+
+/**
+ * The latest recorded run of every model in the run history, oldest first,
+ * so columns keep their place as models are added.
+ */
+export function latestRuns(db: Database): DashboardRun[] {
+  return latestRunPerModel(db)
+    .reverse()
+    .map(run => ({ name: run.model, report: loadReport(db, run.id)! }));
+}
+
+const STYLE = `
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+  h1, h2, h3 { font-weight: 600; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f6f8fa; }
+  a { color: #0969da; text-decoration: none; }
+  .pass { background: #dafbe1; }
+  .fail { background: #ffebe9; }
+  .error, .timeout { background: #fff1c2; }
+  .skipped { background: #eaeef2; color: #656d76; }
+  .bar { background: #eaeef2; width: 200px; height: 12px; display: inline-block; vertical-align: middle; }
+  .bar span { background: #2da44e; height: 100%; display: block; }
+  .muted { color: #656d76; }
+  pre { background: #f6f8fa; padding: 8px; overflow-x: auto; max-height: 40rem; }
+  .diff-add { color: #116329; }
+  .diff-del { color: #82071e; }
+`;
+
+const OUTCOME_LABELS: Record<TaskOutcome, string> = {
+  pass: "✅ pass",
+  fail: "❌ fail",
+  error: "⚠️ error",
+  timeout: "⏱️ timeout",
+  skipped: "⏭️ skipped",
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function page(title: string, body: string[]): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+  ].join("\n") + "\n";
+}
+
+function bar(score: number): string {
+  return `<span class="bar"><span style="width: ${(score * 100).toFixed(1)}%"></span></span>`;
+}
+
+function groupCell(group: GroupScore | undefined): string {
+  if (!group) {
+    return `<td class="muted">–</td>`;
+  }
+  return `<td>${bar(group.score)} ${formatScore(group.score)} <span class="muted">(${group.resolved}/${group.tasks})</span></td>`;
+}
+
+/**
+ * Task reports of one run by task; runs with several samples have several per task.
+ */
+function byTask(report: RunReport): Map<string, TaskReport[]> {
+  const tasks = new Map<string, TaskReport[]>();
+  for (const t of report.tasks) {
+    tasks.set(t.task, [...(tasks.get(t.task) ?? []), t]);
+  }
+  return tasks;
+}
+
+function matrixCell(reports: TaskReport[] | undefined, task: string, column: number): string {
+  if (!reports) {
+    return `<td class="muted">–</td>`;
+  }
+  const href = `tasks/${encodeURIComponent(task)}.html#run-${column}`;
+  if (reports.length === 1) {
+    const [t] = reports as [TaskReport];
+    return `<td class="${t.outcome}"><a href="${href}">${OUTCOME_LABELS[t.outcome]}</a> ${formatScore(t.score.score)}</td>`;
+  }
+  const resolved = reports.filter(t => t.outcome === "pass").length;
+  const outcome = resolved === reports.length ? "pass" : resolved === 0 ? "fail" : "timeout";
+  return `<td class="${outcome}"><a href="${href}">${resolved}/${reports.length} samples</a></td>`;
+}
+
+export function renderIndex(runs: DashboardRun[]): string {
+  const columns = runs.map(run => byTask(run.report));
+  const tasks = [...new Set(runs.flatMap(run => run.report.tasks.map(t => t.task)))].sort();
+  const categoryOf = new Map(runs.flatMap(run => run.report.tasks.map(t => [t.task, t.category ?? "Unknown"] as const)));
+  // Tasks are numbered by category, so first appearance follows the README's category table
+  const categories = [...new Set(tasks.map(t => categoryOf.get(t)!))];
+  const heading = runs.map(run => `<th>${escapeHtml(run.name)}</th>`).join("");
+
+  const body = [
+    "<h1>Bun-Bench results</h1>",
+    "<table>",
+    `<tr><th>Run</th><th>Kind</th><th>Bun</th><th>Started</th><th>Score</th><th>Resolved</th></tr>`,
+    ...runs.map(({ name, report }) => {
+      const { overall } = report.scores;
+      return (
+        `<tr><td>${escapeHtml(name)}</td><td>${report.kind}</td><td>${escapeHtml(report.bunVersion)}</td>` +
+        `<td>${escapeHtml(report.startedAt)}</td><td>${bar(overall.score)} ${formatScore(overall.score)}</td>` +
+        `<td>${overall.resolved}/${overall.tasks}</td></tr>`
+      );
+    }),
+    "</table>",
+
+    "<h2>By category</h2>",
+    "<table>",
+    `<tr><th>Category</th>${heading}</tr>`,
+    ...categories.map(
+      category =>
+        `<tr><td>${escapeHtml(category)}</td>${runs.map(run => groupCell(run.report.scores.byCategory[category])).join("")}</tr>`,
+    ),
+    "</table>",
+
+    "<h2>By difficulty</h2>",
+    "<table>",
+    `<tr><th>Difficulty</th>${heading}</tr>`,
+    ...[...DIFFICULTIES, "unknown"]
+      .filter(level => runs.some(run => level in run.report.scores.byDifficulty))
+      .map(level => `<tr><td>${level}</td>${runs.map(run => groupCell(run.report.scores.byDifficulty[level])).join("")}</tr>`),
+    "</table>",
+
+    "<h2>Tasks</h2>",
+    "<table>",
+    `<tr><th>Task</th><th>Category</th>${heading}</tr>`,
+    ...tasks.map(
+      task =>
+        `<tr><td><a href="tasks/${encodeURIComponent(task)}.html">${escapeHtml(task)}</a></td>` +
+        `<td>${escapeHtml(categoryOf.get(task)!)}</td>${columns.map((c, i) => matrixCell(c.get(task), task, i)).join("")}</tr>`,
+    ),
+    "</table>",
+  ];
+
+  return page("Bun-Bench results", body);
+}
+
+function renderDiff(patch: string): string {
+  return patch
+    .split("\n")
+    .map(line => {
+      const text = escapeHtml(line);
+      if (line.startsWith("+") && !line.startsWith("+++")) return `<span class="diff-add">${text}</span>`;
+      if (line.startsWith("-") && !line.startsWith("---")) return `<span class="diff-del">${text}</span>`;
+      return text;
+    })
+    .join("\n");
+}
+
+function renderTaskRun(t: TaskReport): string[] {
+  const lines = [
+    `<p class="${t.outcome}">${OUTCOME_LABELS[t.outcome]}, score ${formatScore(t.score.score)} ` +
+      `(${t.score.passed}/${t.score.passed + t.score.failed} tests` +
+      (t.split ? `, hidden ${t.split.hidden.passed}/${t.split.hidden.passed + t.split.hidden.failed}` : "") +
+      `), ${(t.duration / 1000).toFixed(1)}s</p>`,
+  ];
+  if (t.failToPass && t.passToPass) {
+    lines.push(
+      `<p>FAIL_TO_PASS ${t.failToPass.passed}/${t.failToPass.total}, PASS_TO_PASS ${t.passToPass.passed}/${t.passToPass.total}</p>`,
+    );
+  }
+  if (t.skipReason) {
+    lines.push(`<p class="muted">Skipped: ${escapeHtml(t.skipReason)}</p>`);
+  }
+  if (t.error) {
+    lines.push(`<p>Error:</p>`, `<pre>${escapeHtml(t.error)}</pre>`);
+  }
+
+  const failing = t.tests.filter(c => c.status === "fail");
+  if (failing.length > 0) {
+    lines.push("<h4>Failing tests</h4>", "<ul>");
+    for (const c of failing) {
+      lines.push(`<li><code>${escapeHtml(`${c.file} > ${c.name}`)}</code>`);
+      if (c.message) lines.push(`<pre>${escapeHtml(c.message)}</pre>`);
+      lines.push("</li>");
+    }
+    lines.push("</ul>");
+  }
+  if (t.quality) {
+    lines.push(`<p>Patch: ${escapeHtml(formatQuality(t.quality))}</p>`);
+    if (t.quality.specialCases.length > 0) {
+      lines.push("<h4>Special-cased test inputs</h4>", "<ul>");
+      lines.push(...t.quality.specialCases.map(c => `<li><code>${escapeHtml(c.literal)}</code> at ${escapeHtml(`${c.path}:${c.line}`)}</li>`));
+      lines.push("</ul>");
+    }
+  }
+  if (t.rejectedHunks) {
+    lines.push("<h4>Rejected hunks</h4>", "<ul>");
+    lines.push(...t.rejectedHunks.map(h => `<li><code>${escapeHtml(`${h.path} ${h.hunk}`)}</code>: ${escapeHtml(h.reason)}</li>`));
+    lines.push("</ul>");
+  }
+  if (t.flaggedHunks) {
+    lines.push("<h4>Hunks deleting tests</h4>", "<ul>");
+    lines.push(...t.flaggedHunks.map(h => `<li><code>${escapeHtml(`${h.path} ${h.hunk}`)}</code>: ${escapeHtml(h.reason)}</li>`));
+    lines.push("</ul>");
+  }
+  if (t.patch) {
+    const summary = t.applied === false ? "Patch (did not apply)" : "Applied patch";
+    lines.push(`<details open><summary>${summary}</summary><pre>${renderDiff(t.patch)}</pre></details>`);
+  }
+  if (t.stderr && t.outcome !== "pass") {
+    lines.push(`<details><summary>Test output</summary><pre>${escapeHtml(t.stderr)}</pre></details>`);
+  }
+  return lines;
+}
+
+export function renderTaskPage(task: string, runs: DashboardRun[]): string {
+  const body = [`<p><a href="../index.html">← All tasks</a></p>`, `<h1>${escapeHtml(task)}</h1>`];
+  const any = runs.flatMap(run => run.report.tasks).find(t => t.task === task);
+  if (any) {
+    body.push(`<p class="muted">${escapeHtml(any.category ?? "Unknown")}, ${any.difficulty ?? "unknown"}</p>`);
+  }
+
+  for (const [i, run] of runs.entries()) {
+    body.push(`<h2 id="run-${i}">${escapeHtml(run.name)}</h2>`);
+    const reports = byTask(run.report).get(task);
+    if (!reports) {
+      body.push(`<p class="muted">Not in this run.</p>`);
+      continue;
+    }
+    for (const t of reports) {
+      if (t.sample) body.push(`<h3>Sample ${escapeHtml(t.sample)}</h3>`);
+      body.push(...renderTaskRun(t));
+    }
+  }
+
+  return page(`${task} – Bun-Bench results`, body);
+}
+
+/**
+ * Render the whole dashboard as pages by path, relative to its directory.
+ */
+export function renderDashboard(runs: DashboardRun[]): Map<string, string> {
+  const pages = new Map([["index.html", renderIndex(runs)]]);
+  const tasks = new Set(runs.flatMap(run => run.report.tasks.map(t => t.task)));
+  for (const task of [...tasks].sort()) {
+    pages.set(`tasks/${task}.html`, renderTaskPage(task, runs));
+  }
+  return pages;
+}
@@ -0,0 +1,106 @@
+/**
+ * Flaky tests (tasks/task-XXX-name/flaky.json).
+ *
+ * Time-sensitive tests (timeouts, TTLs, tick counts, clocks) can pass or
+ * fail against the reference solution depending on machine load.
+ * `bun run test:solutions --repeat N` runs every solution N times and
+ * records the tests whose outcome varied, with how many of the runs they
+ * passed. A fix cannot be held to a test the solution itself does not pass
+ * reliably, so evaluate.ts leaves flaky tests out of resolution, and out of
+ * the score or weighted by their pass rate (see FlakyMode).
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { testId, testStatuses, type TestBaseline } from "./baseline";
+import type { TestCaseResult } from "./junit";
+
+export interface FlakyTests {
+  /** How many times the solution was run */
+  runs: number;
+  /** Passing runs of each flaky test, by test id (see baseline.ts) */
+  passes: Record<string, number>;
+}
+
+/**
+ * How evaluations treat flaky tests:
+ * - exclude: they count for neither resolution nor the score
+ * - downweight: they do not count for resolution, and weigh their pass
+ *   rate against the solution in the score
+ * - keep: they count like any other test
+ */
+export const FLAKY_MODES = ["exclude", "downweight", "keep"] as const;
+
+export type FlakyMode = (typeof FLAKY_MODES)[number];
+
+/**
+ * Find the tests whose outcome varied over several runs of the same code.
+ * A test missing from a run counts as not passing there.
+ */
+export function findFlaky(runs: TestCaseResult[][]): FlakyTests {
+  const statuses = runs.map(testStatuses);
+  const ids = new Set(statuses.flatMap(s => [...s.keys()]));
+  const passes: Record<string, number> = {};
+
+  for (const id of [...ids].sort()) {
+    const passed = statuses.filter(s => s.get(id)).length;
+    if (passed > 0 && passed < runs.length) passes[id] = passed;
+  }
+  return { runs: runs.length, passes };
+}
+
+export function isFlaky(flaky: FlakyTests | undefined, test: TestCaseResult | string): boolean {
+  if (!flaky) {
+    return false;
+  }
+  return Object.hasOwn(flaky.passes, typeof test === "string" ? test : testId(test));
+}
+
+/**
+ * Score weights of the flaky tests by test id; other tests weigh 1.
+ */
+export function flakyWeights(flaky: FlakyTests, mode: FlakyMode): Map<string, number> {
+  if (mode === "keep") {
+    return new Map();
+  }
+  return new Map(Object.entries(flaky.passes).map(([id, passed]) => [id, mode === "exclude" ? 0 : passed / flaky.runs]));
+}
+
+/**
+ * A baseline without the flaky tests, which no fix can be held to.
+ */
+export function withoutFlaky(baseline: TestBaseline, flaky: FlakyTests): TestBaseline {
+  return {
+    FAIL_TO_PASS: baseline.FAIL_TO_PASS.filter(id => !isFlaky(flaky, id)),
+    PASS_TO_PASS: baseline.PASS_TO_PASS.filter(id => !isFlaky(flaky, id)),
+  };
+}
+
+/**
+ * Read the flaky tests of the task in taskDir, or undefined if it has none
+ * recorded. Throws if flaky.json exists but is malformed.
+ */
+export function loadFlaky(taskDir: string): FlakyTests | undefined {
+  const path = join(taskDir, "flaky.json");
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  const data = JSON.parse(readFileSync(path, "utf8"));
+  const runs = data?.runs;
+  const passes = data?.passes;
+  const valid =
+    Number.isInteger(runs) &&
+    runs > 1 &&
+    typeof passes === "object" &&
+    passes !== null &&
+    Object.values(passes).every(p => Number.isInteger(p) && (p as number) > 0 && (p as number) < runs);
+  if (!valid) {
+    throw new Error(`${path}: runs must be an integer above 1 and passes must map test ids to counts between 0 and runs`);
+  }
+  return { runs, passes };
+}
+
+export function writeFlaky(taskDir: string, flaky: FlakyTests): void {
+  writeFileSync(join(taskDir, "flaky.json"), JSON.stringify(flaky, null, 2) + "\n");
+}
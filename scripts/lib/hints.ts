@@ -0,0 +1,196 @@
+/**
+ * Removal of the hints tasks carry for human readers.
+ *
+ * Task sources point straight at their bug ("// BUG: ...", "// FIXED: ...",
+ * "This test FAILS because buggy code..."), and task READMEs have sections
+ * such as "Bug Details" that spell out the fix. A model given these files is
+ * handed the answer, so exports strip:
+ * - line comments, trailing comments and doc comment paragraphs that label
+ *   or mention the bug or its fix, with the comment lines continuing them
+ * - README sections describing the bug, and the descriptions in its file list
+ *
+ * Stripping is line based and keeps everything else byte for byte.
+ */
+
+// Comments that open with a label: "BUG:", "FIXED:", "Missing: ...", "Buggy build script - ..."
+const HINT_LABEL =
+  /^(BUGS?|FIX(ED|ES)?|WRONG|UPDATED|OLD|NEW)\b|^(Bugs?|Fix(ed|es)?|Missing|Solution|Correct|Alternative)( [a-z]+)*( \(.*\))?:|^(Buggy|Fixed)\b/;
+// Comments that talk about the bug anywhere in their text
+const HINT_MENTION = [/\bbug(gy|s)?\b/i, /\bthe fix\b/i, /\bis wrong\b/i, /\bFAILS?\b/];
+
+// Labels tacked onto an otherwise useful comment: "Data module - FIXED VERSION", "(BUG: includes sender)"
+const HINT_SUFFIX = /\s*(-\s*(FIXED|BUGGY)( VERSION)?|\((BUG|FIX|FIXED)\b[^)]*\))\s*$/;
+
+const HINT_SECTION = /^((the|current) )?(bugs?|buggy)( (details|location|behavior))?$|^hints?$/i;
+
+function isHint(comment: string): boolean {
+  const text = comment.trim();
+  return HINT_LABEL.test(text) || HINT_MENTION.some(pattern => pattern.test(text));
+}
+
+/**
+ * Find where a trailing // comment starts, skipping string literals.
+ * Returns -1 if the line has none outside a string.
+ */
+function commentStart(line: string): number {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = undefined;
+    } else if (c === '"' || c === "'" || c === "`") {
+      quote = c;
+    } else if (c === "/" && line[i + 1] === "/") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Drop a hint label from the end of a comment line, keeping the rest.
+ */
+function stripSuffix(line: string): string {
+  if (!/^\s*(\/\/|\*)/.test(line)) return line;
+  const stripped = line.replace(HINT_SUFFIX, "");
+  return /^\s*(\/\/|\*)\s*$/.test(stripped) ? line : stripped;
+}
+
+function indentOf(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+/**
+ * Drop hint paragraphs from the lines of a block comment, from its opening
+ * line to its closing one. Returns no lines if nothing but hints was left.
+ */
+function stripBlockComment(block: string[]): string[] {
+  const kept: string[] = [];
+  let skipping = false;
+
+  for (const [i, line] of block.entries()) {
+    const inner = i === 0 || i === block.length - 1 ? undefined : line.match(/^\s*\*(.*)$/)?.[1];
+    if (inner === undefined) {
+      kept.push(line);
+      continue;
+    }
+    // A paragraph ends at a blank line or a tag
+    if (inner.trim() === "" || inner.trim().startsWith("@")) {
+      skipping = false;
+    } else if (isHint(inner)) {
+      skipping = true;
+    }
+    if (!skipping) kept.push(line);
+  }
+
+  // Tidy blank lines left at the edges or doubled up where paragraphs went
+  const body = kept.slice(1, -1).filter((line, i, lines) => {
+    const blank = /^\s*\*\s*$/.test(line);
+    return !blank || (i > 0 && i < lines.length - 1 && !/^\s*\*\s*$/.test(lines[i - 1]!));
+  });
+  while (body.length > 0 && /^\s*\*\s*$/.test(body[body.length - 1]!)) body.pop();
+
+  if (body.length === 0 && block.length > 2) {
+    return [];
+  }
+  return [kept[0]!, ...body, kept[kept.length - 1]!];
+}
+
+/**
+ * Remove hint comments from a TypeScript or JavaScript source file.
+ */
+export function stripHintComments(source: string): string {
+  const lines = source.split("\n").map(stripSuffix);
+  // null marks where lines were removed
+  const out: (string | null)[] = [];
+  // Indentation of the hint comment whose continuation lines are being dropped
+  let continuing: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("//")) {
+      if (continuing !== undefined && indentOf(line) === continuing) {
+        out.push(null);
+        continue;
+      }
+      continuing = undefined;
+      if (isHint(trimmed.slice(2))) {
+        continuing = indentOf(line);
+        out.push(null);
+        continue;
+      }
+      out.push(line);
+      continue;
+    }
+    continuing = undefined;
+
+    if (trimmed.startsWith("/*")) {
+      let end = i;
+      while (end < lines.length - 1 && !lines[end]!.includes("*/")) end++;
+      if (end === i) {
+        // A one-line block comment
+        out.push(isHint(trimmed.replace(/^\/\*+|\*\/$/g, "")) ? null : line);
+      } else {
+        const kept = stripBlockComment(lines.slice(i, end + 1));
+        out.push(...(kept.length > 0 ? kept : [null]));
+      }
+      i = end;
+      continue;
+    }
+
+    const start = commentStart(line);
+    if (start > 0 && line.slice(0, start).trim() !== "" && isHint(line.slice(start + 2))) {
+      out.push(line.slice(0, start).trimEnd());
+      continue;
+    }
+    out.push(line);
+  }
+
+  // Removed comments must not leave doubled blank lines or a blank first line
+  const tidy: string[] = [];
+  let removed = false;
+  for (const line of out) {
+    if (line === null) {
+      removed = true;
+      continue;
+    }
+    const previous = tidy[tidy.length - 1];
+    if (!(removed && line.trim() === "" && (previous === undefined || previous.trim() === ""))) {
+      tidy.push(line);
+    }
+    removed = false;
+  }
+  return tidy.join("\n");
+}
+
+/**
+ * Remove the sections of a task README that describe the bug, and reduce its
+ * "Files" list to the paths a model receives.
+ */
+export function stripReadmeHints(readme: string): string {
+  const out: string[] = [];
+  let section: string | undefined;
+  let fenced = false;
+
+  for (const line of readme.split("\n")) {
+    if (line.startsWith("```")) fenced = !fenced;
+    const heading = fenced ? null : line.match(/^##\s+(.*?)\s*$/);
+    if (heading) section = heading[1];
+
+    if (section !== undefined && HINT_SECTION.test(section)) {
+      continue;
+    }
+    if (section === "Files" && !heading) {
+      const item = line.match(/^(\s*[-*]\s+`[^`]+`)/);
+      if (item && line.includes("solution/")) continue;
+      out.push(item ? item[1]! : line);
+      continue;
+    }
+    out.push(line);
+  }
+
+  return out.join("\n").replace(/\n{3,}/g, "\n\n");
+}
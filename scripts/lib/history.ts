@@ -0,0 +1,321 @@
+/**
+ * Run history in a local SQLite database.
+ *
+ * test-solutions.ts and evaluate.ts record every run here: the model, Bun
+ * version and start time, each task's outcome and score, and each test's
+ * status. The full JSON report is kept as well, so any run can be
+ * reproduced as a RunReport. `bun run compare` diffs two recorded runs,
+ * and the results server (see results-server.ts) serves them over HTTP.
+ *
+ * The database lives in out/history.sqlite unless BENCH_HISTORY names
+ * another file.
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { testId } from "./baseline";
+import type { RunReport, TaskOutcome } from "./report";
+
+export const historyPath = process.env.BENCH_HISTORY ?? join(import.meta.dir, "..", "..", "out", "history.sqlite");
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    model TEXT NOT NULL,
+    bun_version TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    duration INTEGER NOT NULL,
+    score REAL NOT NULL,
+    resolved INTEGER NOT NULL,
+    total INTEGER NOT NULL,
+    report TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS task_results (
+    run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+    task TEXT NOT NULL,
+    sample TEXT NOT NULL DEFAULT '',
+    category TEXT,
+    difficulty TEXT,
+    outcome TEXT NOT NULL,
+    score REAL NOT NULL,
+    duration INTEGER NOT NULL,
+    PRIMARY KEY (run_id, task, sample)
+  );
+  CREATE TABLE IF NOT EXISTS test_results (
+    run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+    task TEXT NOT NULL,
+    sample TEXT NOT NULL DEFAULT '',
+    test TEXT NOT NULL,
+    status TEXT NOT NULL,
+    duration INTEGER NOT NULL,
+    PRIMARY KEY (run_id, task, sample, test)
+  );
+  CREATE INDEX IF NOT EXISTS task_results_task ON task_results (task);
+`;
+
+export interface StoredRun {
+  id: number;
+  kind: RunReport["kind"];
+  model: string;
+  bunVersion: string;
+  startedAt: string;
+  duration: number;
+  score: number;
+  resolved: number;
+  total: number;
+}
+
+export interface StoredTaskResult {
+  task: string;
+  /** Empty for runs with one patch per task */
+  sample: string;
+  category: string | null;
+  difficulty: string | null;
+  outcome: TaskOutcome;
+  score: number;
+}
+
+export interface TaskChange {
+  task: string;
+  sample: string;
+  before: StoredTaskResult;
+  after: StoredTaskResult;
+  /** Tests that passed before and do not now, and the reverse */
+  broken: string[];
+  fixed: string[];
+}
+
+export interface RunDiff {
+  before: StoredRun;
+  after: StoredRun;
+  /** Passed before, not now */
+  regressed: TaskChange[];
+  /** Passed now, not before */
+  newlyPassed: TaskChange[];
+  /** Timed out before, fail or error now */
+  timeoutToFail: TaskChange[];
+  /** Any other change of outcome, or of test results under the same outcome */
+  changed: TaskChange[];
+  /** Tasks in only one of the runs */
+  added: string[];
+  removed: string[];
+}
+
+export interface LeaderboardEntry extends StoredRun {
+  rank: number;
+}
+
+export interface TaskHistoryEntry {
+  runId: number;
+  model: string;
+  kind: RunReport["kind"];
+  bunVersion: string;
+  startedAt: string;
+  sample: string;
+  outcome: TaskOutcome;
+  score: number;
+  duration: number;
+}
+
+const RUN_COLUMNS = `id, kind, model, bun_version AS bunVersion, started_at AS startedAt, duration, score, resolved, total`;
+
+export function openHistory(path = historyPath): Database {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA foreign_keys = ON");
+  db.exec(SCHEMA);
+  return db;
+}
+
+/**
+ * Store a run and return its id.
+ */
+export function recordRun(db: Database, report: RunReport): number {
+  const insertRun = db.prepare(
+    `INSERT INTO runs (kind, model, bun_version, started_at, duration, score, resolved, total, report)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`,
+  );
+  const insertTask = db.prepare(
+    `INSERT INTO task_results (run_id, task, sample, category, difficulty, outcome, score, duration)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const insertTest = db.prepare(
+    `INSERT INTO test_results (run_id, task, sample, test, status, duration) VALUES (?, ?, ?, ?, ?, ?)`,
+  );
+
+  return db.transaction(() => {
+    const { overall } = report.scores;
+    const { id } = insertRun.get(
+      report.kind,
+      report.model ?? "unknown",
+      report.bunVersion,
+      report.startedAt,
+      report.duration,
+      overall.score,
+      overall.resolved,
+      overall.tasks,
+      JSON.stringify(report),
+    ) as { id: number };
+
+    for (const t of report.tasks) {
+      const sample = t.sample ?? "";
+      insertTask.run(id, t.task, sample, t.category ?? null, t.difficulty ?? null, t.outcome, t.score.score, t.duration);
+
+      // A test id that appears more than once only counts as passed if every occurrence did
+      const tests = new Map<string, { status: string; duration: number }>();
+      for (const test of t.tests) {
+        const previous = tests.get(testId(test));
+        const status = previous && previous.status !== "pass" ? previous.status : test.status;
+        tests.set(testId(test), { status, duration: (previous?.duration ?? 0) + test.duration });
+      }
+      for (const [test, { status, duration }] of tests) {
+        insertTest.run(id, t.task, sample, test, status, Math.round(duration));
+      }
+    }
+    return id;
+  })();
+}
+
+/**
+ * Record a run in the history database at path, for the scripts that
+ * produce runs.
+ */
+export function saveToHistory(report: RunReport, path = historyPath): void {
+  const db = openHistory(path);
+  try {
+    const id = recordRun(db, report);
+    console.log(`🗄️  Run ${id} recorded in ${path}`);
+  } finally {
+    db.close();
+  }
+}
+
+export function listRuns(db: Database, limit = 20): StoredRun[] {
+  return db.query(`SELECT ${RUN_COLUMNS} FROM runs ORDER BY id DESC LIMIT ?`).all(limit) as StoredRun[];
+}
+
+/**
+ * The most recent run of each model, newest first.
+ */
+export function latestRunPerModel(db: Database): StoredRun[] {
+  return db
+    .query(`SELECT ${RUN_COLUMNS} FROM runs WHERE id IN (SELECT MAX(id) FROM runs GROUP BY model) ORDER BY id DESC`)
+    .all() as StoredRun[];
+}
+
+/**
+ * The latest run of each model, ranked by score, then by tasks resolved.
+ * With a category, runs are ranked by their score in that category, and
+ * runs without tasks in it are left out.
+ */
+export function leaderboard(db: Database, category?: string): LeaderboardEntry[] {
+  const runs = latestRunPerModel(db).flatMap(run => {
+    if (category === undefined) {
+      return [run];
+    }
+    const group = loadReport(db, run.id)?.scores.byCategory[category];
+    return group ? [{ ...run, score: group.score, resolved: group.resolved, total: group.tasks }] : [];
+  });
+  return runs
+    .sort((a, b) => b.score - a.score || b.resolved - a.resolved || a.id - b.id)
+    .map((run, i) => ({ rank: i + 1, ...run }));
+}
+
+/**
+ * A task's results in every recorded run, newest first.
+ */
+export function taskHistory(db: Database, task: string): TaskHistoryEntry[] {
+  return db
+    .query(
+      `SELECT r.id AS runId, r.model, r.kind, r.bun_version AS bunVersion, r.started_at AS startedAt,
+              t.sample, t.outcome, t.score, t.duration
+       FROM task_results t JOIN runs r ON r.id = t.run_id
+       WHERE t.task = ? ORDER BY r.id DESC, t.sample`,
+    )
+    .all(task) as TaskHistoryEntry[];
+}
+
+/**
+ * Find a run by id, or "latest" / "previous" for the last two runs.
+ */
+export function findRun(db: Database, ref: string): StoredRun | undefined {
+  if (ref === "latest" || ref === "previous") {
+    const offset = ref === "latest" ? 0 : 1;
+    return (db.query(`SELECT ${RUN_COLUMNS} FROM runs ORDER BY id DESC LIMIT 1 OFFSET ?`).get(offset) as StoredRun) ?? undefined;
+  }
+  if (!/^\d+$/.test(ref)) {
+    return undefined;
+  }
+  return (db.query(`SELECT ${RUN_COLUMNS} FROM runs WHERE id = ?`).get(Number(ref)) as StoredRun) ?? undefined;
+}
+
+/**
+ * The JSON report of a run, as it was written when the run was recorded.
+ */
+export function loadReport(db: Database, id: number): RunReport | undefined {
+  const row = db.query(`SELECT report FROM runs WHERE id = ?`).get(id) as { report: string } | null;
+  return row ? (JSON.parse(row.report) as RunReport) : undefined;
+}
+
+export function loadTaskResults(db: Database, runId: number): StoredTaskResult[] {
+  return db
+    .query(`SELECT task, sample, category, difficulty, outcome, score FROM task_results WHERE run_id = ? ORDER BY task, sample`)
+    .all(runId) as StoredTaskResult[];
+}
+
+function loadTestStatuses(db: Database, runId: number): Map<string, Map<string, string>> {
+  const rows = db.query(`SELECT task, sample, test, status FROM test_results WHERE run_id = ?`).all(runId) as {
+    task: string;
+    sample: string;
+    test: string;
+    status: string;
+  }[];
+  const byTask = new Map<string, Map<string, string>>();
+  for (const row of rows) {
+    const key = `${row.task}\0${row.sample}`;
+    if (!byTask.has(key)) byTask.set(key, new Map());
+    byTask.get(key)!.set(row.test, row.status);
+  }
+  return byTask;
+}
+
+/**
+ * Compare two recorded runs task by task (and sample by sample).
+ */
+export function diffRuns(db: Database, before: StoredRun, after: StoredRun): RunDiff {
+  const key = (t: StoredTaskResult) => `${t.task}\0${t.sample}`;
+  const label = (t: StoredTaskResult) => (t.sample ? `${t.task} (sample ${t.sample})` : t.task);
+  const beforeTasks = new Map(loadTaskResults(db, before.id).map(t => [key(t), t]));
+  const afterTasks = new Map(loadTaskResults(db, after.id).map(t => [key(t), t]));
+  const beforeTests = loadTestStatuses(db, before.id);
+  const afterTests = loadTestStatuses(db, after.id);
+
+  const diff: RunDiff = { before, after, regressed: [], newlyPassed: [], timeoutToFail: [], changed: [], added: [], removed: [] };
+
+  for (const [k, b] of beforeTasks) {
+    const a = afterTasks.get(k);
+    if (!a) {
+      diff.removed.push(label(b));
+      continue;
+    }
+
+    const testsBefore = beforeTests.get(k) ?? new Map<string, string>();
+    const testsAfter = afterTests.get(k) ?? new Map<string, string>();
+    const broken = [...testsBefore].filter(([id, s]) => s === "pass" && testsAfter.get(id) !== "pass").map(([id]) => id);
+    const fixed = [...testsAfter].filter(([id, s]) => s === "pass" && testsBefore.get(id) !== "pass").map(([id]) => id);
+    const change: TaskChange = { task: b.task, sample: b.sample, before: b, after: a, broken: broken.sort(), fixed: fixed.sort() };
+
+    if (b.outcome === "pass" && a.outcome !== "pass") diff.regressed.push(change);
+    else if (b.outcome !== "pass" && a.outcome === "pass") diff.newlyPassed.push(change);
+    else if (b.outcome === "timeout" && (a.outcome === "fail" || a.outcome === "error")) diff.timeoutToFail.push(change);
+    else if (b.outcome !== a.outcome || broken.length > 0 || fixed.length > 0) diff.changed.push(change);
+  }
+  for (const [k, a] of afterTasks) {
+    if (!beforeTasks.has(k)) diff.added.push(label(a));
+  }
+
+  return diff;
+}
@@ -0,0 +1,95 @@
+/**
+ * Read bun's JUnit test reporter output.
+ *
+ * bun test --reporter=junit nests a <testsuite> per file and one per
+ * describe() block; the describe names are joined with " > " to build the
+ * full test name, the same way bun prints it on the console.
+ */
+
+export type TestStatus = "pass" | "fail" | "skip";
+
+export interface TestCaseResult {
+  /** Full test name including describe blocks, e.g. "Users > creates a user" */
+  name: string;
+  file: string;
+  status: TestStatus;
+  /** Duration in milliseconds */
+  duration: number;
+  /** Failure message for failed tests */
+  message?: string;
+}
+
+/**
+ * Escape text for an XML attribute (attribute = true) or element body.
+ * Control characters that XML 1.0 cannot represent are dropped.
+ */
+export function escapeXml(s: string, attribute = true): string {
+  const escaped = s
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+  return attribute ? escaped.replace(/\n/g, "&#10;") : escaped;
+}
+
+function unescapeXml(s: string): string {
+  return s
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function attributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attrs[match[1]!] = unescapeXml(match[2]!);
+  }
+  return attrs;
+}
+
+/**
+ * Extract the individual test results from a bun JUnit report.
+ */
+export function parseJunit(xml: string): TestCaseResult[] {
+  const results: TestCaseResult[] = [];
+  // Names of the open <testsuite> elements; the outermost one is the file
+  const suites: string[] = [];
+  let current: TestCaseResult | null = null;
+
+  for (const match of xml.matchAll(/<(\/?)(testsuite|testcase|failure|error|skipped)\b([^>]*?)(\/?)>/g)) {
+    const [, closing, tag, attrSource, selfClosing] = match;
+    const attrs = attributes(attrSource!);
+
+    if (tag === "testsuite") {
+      if (closing) suites.pop();
+      else if (!selfClosing) suites.push(attrs.name ?? "");
+    } else if (tag === "testcase") {
+      if (closing) {
+        current = null;
+        continue;
+      }
+      const path = [...suites.slice(1), attrs.name ?? ""];
+      current = {
+        name: path.join(" > "),
+        file: attrs.file ?? suites[0] ?? "",
+        status: "pass",
+        duration: Number(attrs.time ?? 0) * 1000,
+      };
+      results.push(current);
+      if (selfClosing) current = null;
+    } else if (current && !closing) {
+      if (tag === "skipped") {
+        current.status = "skip";
+      } else {
+        current.status = "fail";
+        current.message = attrs.message;
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,70 @@
+/**
+ * Preloaded into every test run by the harness (see leaks.ts).
+ *
+ * Once all test files have finished, lists the sockets the test process
+ * still has listening and writes them to the file in BENCH_LEAK_FILE. The
+ * process exits right after, so anything found here was never closed by the
+ * code under test or its tests.
+ *
+ * Sockets are found through /proc, so nothing is reported on systems
+ * without it.
+ */
+
+import { afterAll } from "bun:test";
+import { readdirSync, readFileSync, readlinkSync, writeFileSync } from "fs";
+
+// Socket tables and the state of an open server socket in each:
+// 0A is TCP_LISTEN, 07 is an unconnected (bound) UDP socket
+const TABLES = [
+  { file: "/proc/self/net/tcp", protocol: "tcp", state: "0A" },
+  { file: "/proc/self/net/tcp6", protocol: "tcp", state: "0A" },
+  { file: "/proc/self/net/udp", protocol: "udp", state: "07" },
+  { file: "/proc/self/net/udp6", protocol: "udp", state: "07" },
+];
+
+function socketInodes(): Set<string> {
+  const inodes = new Set<string>();
+  for (const fd of readdirSync("/proc/self/fd")) {
+    try {
+      const match = readlinkSync(`/proc/self/fd/${fd}`).match(/^socket:\[(\d+)\]$/);
+      if (match) inodes.add(match[1]!);
+    } catch {
+      // Closed while we were looking
+    }
+  }
+  return inodes;
+}
+
+function listeningPorts(): string[] {
+  const inodes = socketInodes();
+  const ports = new Set<string>();
+
+  for (const table of TABLES) {
+    let rows: string[];
+    try {
+      rows = readFileSync(table.file, "utf8").trim().split("\n").slice(1);
+    } catch {
+      continue;
+    }
+    for (const row of rows) {
+      // sl local_address rem_address st tx_queue:rx_queue tr:tm->when retrnsmt uid timeout inode
+      const fields = row.trim().split(/\s+/);
+      if (fields[3] === table.state && inodes.has(fields[9]!)) {
+        ports.add(`${parseInt(fields[1]!.split(":")[1]!, 16)}/${table.protocol}`);
+      }
+    }
+  }
+
+  return [...ports].sort((a, b) => parseInt(a) - parseInt(b));
+}
+
+afterAll(() => {
+  const file = process.env.BENCH_LEAK_FILE;
+  if (!file) return;
+
+  try {
+    writeFileSync(file, JSON.stringify({ ports: listeningPorts() }));
+  } catch {
+    // Leak detection must never fail a test run
+  }
+});
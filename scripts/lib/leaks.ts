@@ -0,0 +1,118 @@
+/**
+ * Detection of resources a test run leaves behind.
+ *
+ * Many tasks are about cleanup, so after each run the harness reports:
+ * - ports: sockets still listening when the last test finished (found by
+ *   leak-probe.ts, which is preloaded into the run)
+ * - processes: processes of the run still alive after bun test exited
+ * - files: files and directories the run added to the task directory
+ * - tempFiles: entries left in the run's private TMPDIR
+ *
+ * Leaks are reported, they do not fail a task.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+
+export interface LeakReport {
+  /** e.g. "3001/tcp" */
+  ports: string[];
+  /** "<pid> <command line>" */
+  processes: string[];
+  /** Relative to the task directory; a new directory is listed once, with a trailing slash */
+  files: string[];
+  /** Top-level entries of the run's TMPDIR */
+  tempFiles: string[];
+}
+
+export interface LeakWatch {
+  /** Variables to add to the test run's environment */
+  env: Record<string, string>;
+  /** File to pass to `bun test --preload` */
+  preload: string;
+  /** Compare the task directory against its state before the run and collect the findings */
+  collect(lingering: string[]): LeakReport;
+  dispose(): void;
+}
+
+const PROBE = join(import.meta.dir, "leak-probe.ts");
+
+function listPaths(dir: string): Set<string> {
+  const paths = readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter(entry => !join(entry.parentPath, entry.name).split("/").includes("node_modules"))
+    .map(entry => {
+      const path = join(entry.parentPath, entry.name).slice(dir.length + 1);
+      return entry.isDirectory() ? `${path}/` : path;
+    });
+  return new Set(paths);
+}
+
+/**
+ * Paths present after but not before, leaving out the contents of new directories.
+ */
+function addedPaths(before: Set<string>, after: Set<string>): string[] {
+  const added = [...after].filter(path => !before.has(path));
+  const addedDirs = new Set(added.filter(path => path.endsWith("/")));
+
+  return added
+    .filter(path => {
+      const parent = dirname(path.replace(/\/$/, ""));
+      return parent === "." || !addedDirs.has(`${parent}/`);
+    })
+    .sort();
+}
+
+/**
+ * Snapshot the task directory in dir and prepare a private TMPDIR and probe
+ * output file for one test run.
+ */
+export function watchLeaks(dir: string): LeakWatch {
+  const id = crypto.randomUUID();
+  const tempDir = join(tmpdir(), `bun-bench-tmp-${id}`);
+  const probeFile = join(tmpdir(), `bun-bench-leaks-${id}.json`);
+  const before = listPaths(dir);
+  mkdirSync(tempDir);
+
+  return {
+    env: { TMPDIR: tempDir, BENCH_LEAK_FILE: probeFile },
+    preload: PROBE,
+    collect(lingering) {
+      let ports: string[] = [];
+      if (existsSync(probeFile)) {
+        try {
+          ports = JSON.parse(readFileSync(probeFile, "utf8")).ports ?? [];
+        } catch {
+          // A run killed mid-write leaves a truncated file
+        }
+      }
+
+      return {
+        ports,
+        processes: lingering,
+        files: existsSync(dir) ? addedPaths(before, listPaths(dir)) : [],
+        tempFiles: readdirSync(tempDir).sort(),
+      };
+    },
+    dispose() {
+      rmSync(tempDir, { recursive: true, force: true });
+      rmSync(probeFile, { force: true });
+    },
+  };
+}
+
+export function hasLeaks(leaks: LeakReport): boolean {
+  return Object.values(leaks).some(list => list.length > 0);
+}
+
+/**
+ * Describe leaks for the console, one line per kind of resource.
+ */
+export function formatLeaks(leaks: LeakReport): string[] {
+  const lines: string[] = [];
+  if (leaks.ports.length > 0) lines.push(`listening ports: ${leaks.ports.join(", ")}`);
+  if (leaks.processes.length > 0) lines.push(`lingering processes: ${leaks.processes.join(", ")}`);
+  if (leaks.files.length > 0) lines.push(`files in the task directory: ${leaks.files.join(", ")}`);
+  if (leaks.tempFiles.length > 0) lines.push(`temporary files: ${leaks.tempFiles.join(", ")}`);
+  return lines;
+}
@@ -0,0 +1,138 @@
+/**
+ * Task manifests (tasks/task-XXX-name/task.json).
+ *
+ * Every task carries a machine-readable description of itself so the
+ * harness, the README tables and any other tooling can be driven from the
+ * tasks instead of hard-coded lists.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join, basename } from "path";
+
+export const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+// How the reference solution is put in place before running the tests:
+// - symlink: solution/ replaces src/ entirely
+// - copy: solution files are copied over src/, keeping the other source files
+// - test-focused: the bug lives in test/, solution/ holds the fixed test files
+export const STRATEGIES = ["symlink", "copy", "test-focused"] as const;
+
+export const SERVICES = ["redis", "postgres"] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+export type Strategy = (typeof STRATEGIES)[number];
+export type Service = (typeof SERVICES)[number];
+
+export interface TaskManifest {
+  id: string;
+  title: string;
+  category: string;
+  difficulty: Difficulty;
+  /** Bun APIs the task exercises, as shown in the README tables */
+  apis: string[];
+  strategy: Strategy;
+  services: Service[];
+  /**
+   * Number of consecutive ports the tests bind. The harness assigns a free
+   * block and passes its first port in the PORT environment variable.
+   */
+  ports: number;
+  /** Wall-clock limit for one test run, in milliseconds */
+  timeout: number;
+  /** Oldest Bun release the task is valid on, e.g. "1.2.9"; runs on older ones are skipped */
+  minBunVersion?: string;
+}
+
+export class ManifestError extends Error {
+  constructor(
+    public readonly task: string,
+    public readonly problems: string[],
+  ) {
+    super(`Invalid task.json for ${task}: ${problems.join("; ")}`);
+    this.name = "ManifestError";
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === "string" && v.length > 0);
+}
+
+/**
+ * Check a parsed task.json against the manifest schema.
+ * Returns a list of problems, empty if the manifest is valid.
+ */
+export function validateManifest(data: unknown, task: string): string[] {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return ["manifest must be a JSON object"];
+  }
+
+  const m = data as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (m.id !== task) {
+    problems.push(`"id" must be "${task}"`);
+  }
+  for (const key of ["title", "category"]) {
+    if (typeof m[key] !== "string" || m[key] === "") {
+      problems.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  if (!DIFFICULTIES.includes(m.difficulty as Difficulty)) {
+    problems.push(`"difficulty" must be one of ${DIFFICULTIES.join(", ")}`);
+  }
+  if (!isStringArray(m.apis) || m.apis.length === 0) {
+    problems.push(`"apis" must be a non-empty array of strings`);
+  }
+  if (!STRATEGIES.includes(m.strategy as Strategy)) {
+    problems.push(`"strategy" must be one of ${STRATEGIES.join(", ")}`);
+  }
+  if (!isStringArray(m.services) || !m.services.every(s => SERVICES.includes(s as Service))) {
+    problems.push(`"services" must be an array of ${SERVICES.join(", ")}`);
+  }
+  if (typeof m.ports !== "number" || !Number.isInteger(m.ports) || m.ports < 0) {
+    problems.push(`"ports" must be a non-negative integer`);
+  }
+  if (typeof m.timeout !== "number" || !Number.isInteger(m.timeout) || m.timeout <= 0) {
+    problems.push(`"timeout" must be a positive integer (milliseconds)`);
+  }
+
+  if (m.minBunVersion !== undefined && (typeof m.minBunVersion !== "string" || !/^\d+\.\d+\.\d+$/.test(m.minBunVersion))) {
+    problems.push(`"minBunVersion" must be a version such as "1.2.0"`);
+  }
+
+  const known = ["id", "title", "category", "difficulty", "apis", "strategy", "services", "ports", "timeout", "minBunVersion"];
+  for (const key of Object.keys(m)) {
+    if (!known.includes(key)) {
+      problems.push(`unknown field "${key}"`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Read and validate the manifest of the task in taskDir.
+ * Throws ManifestError if it is missing or invalid.
+ */
+export function loadManifest(taskDir: string): TaskManifest {
+  const task = basename(taskDir);
+  const path = join(taskDir, "task.json");
+
+  if (!existsSync(path)) {
+    throw new ManifestError(task, ["missing task.json"]);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new ManifestError(task, [`task.json is not valid JSON: ${error}`]);
+  }
+
+  const problems = validateManifest(data, task);
+  if (problems.length > 0) {
+    throw new ManifestError(task, problems);
+  }
+
+  return data as TaskManifest;
+}
@@ -0,0 +1,85 @@
+/**
+ * Bun version compatibility matrix.
+ *
+ * Many tasks exercise Bun APIs whose behaviour changes between releases
+ * (Bun.RedisClient, Bun.CookieMap, Bun.sql, Bun.semver). Running every
+ * reference solution under several bun binaries shows which tasks are
+ * valid on which release: a task is valid where its solution passes. The
+ * oldest release from which a task stays valid on every newer tested one
+ * is a candidate for its manifest's minBunVersion.
+ */
+
+import type { TaskOutcome } from "./report";
+
+export interface BunBinary {
+  /** Path of the binary, or "bun" for the one on PATH */
+  path: string;
+  version: string;
+}
+
+export interface MatrixRow {
+  task: string;
+  category?: string;
+  /** As declared in task.json */
+  minBunVersion?: string;
+  /** Outcome of the solution by Bun version */
+  outcomes: Record<string, TaskOutcome>;
+  /** Oldest tested version from which the solution passes on every newer tested one */
+  validFrom?: string;
+}
+
+export interface BunMatrix {
+  /** Oldest first */
+  binaries: BunBinary[];
+  tasks: MatrixRow[];
+  /** Valid tasks out of those that ran, by Bun version */
+  byVersion: Record<string, { valid: number; total: number }>;
+}
+
+export function sortBinaries(binaries: BunBinary[]): BunBinary[] {
+  return [...binaries].sort((a, b) => Bun.semver.order(a.version, b.version));
+}
+
+/**
+ * The oldest of versions (oldest first) from which every later one passes.
+ */
+function validFrom(versions: string[], outcomes: Record<string, TaskOutcome>): string | undefined {
+  let oldest: string | undefined;
+  for (const version of [...versions].reverse()) {
+    if (outcomes[version] !== "pass") break;
+    oldest = version;
+  }
+  return oldest;
+}
+
+export function buildMatrix(binaries: BunBinary[], rows: Omit<MatrixRow, "validFrom">[]): BunMatrix {
+  const sorted = sortBinaries(binaries);
+  const versions = sorted.map(b => b.version);
+  const tasks = rows
+    .map(row => ({ ...row, validFrom: validFrom(versions, row.outcomes) }))
+    .sort((a, b) => a.task.localeCompare(b.task));
+
+  const byVersion: BunMatrix["byVersion"] = {};
+  for (const version of versions) {
+    const ran = tasks.filter(t => t.outcomes[version] && t.outcomes[version] !== "skipped");
+    byVersion[version] = { valid: ran.filter(t => t.outcomes[version] === "pass").length, total: ran.length };
+  }
+
+  return { binaries: sorted, tasks, byVersion };
+}
+
+/**
+ * Tasks that fail on a tested version their minBunVersion admits, with the
+ * oldest version the matrix shows them valid from. Runs on versions below
+ * minBunVersion are skipped, so a minimum that is too strict goes unnoticed
+ * until it is lowered and the matrix rerun.
+ */
+export function suggestMinVersions(matrix: BunMatrix): { task: string; declared?: string; suggested: string }[] {
+  return matrix.tasks.flatMap(t => {
+    const admitted = matrix.binaries.find(b => !t.minBunVersion || Bun.semver.order(b.version, t.minBunVersion) >= 0);
+    if (!t.validFrom || !admitted || t.validFrom === admitted.version) {
+      return [];
+    }
+    return [{ task: t.task, declared: t.minBunVersion, suggested: t.validFrom }];
+  });
+}
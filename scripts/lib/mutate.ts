@@ -0,0 +1,172 @@
+/**
+ * Mutation operators for generating new task variants.
+ *
+ * A mutant is a reference solution file with one small, plausible bug put
+ * back in, in the style of the hand-written tasks:
+ * - off-by-one: a literal index or slice bound moved by one (task-004, task-050)
+ * - remove-await: an awaited call left unawaited (task-012)
+ * - swap-comparison: < and <=, > and >=, === and !== exchanged
+ * - drop-header: a response or request header left out (task-002)
+ * - bun-option: an option of a Bun.* call flipped or left out (task-031 to task-035)
+ *
+ * Mutants are found on the TypeScript AST but applied as text edits, so the
+ * rest of the file keeps its formatting.
+ */
+
+import ts from "typescript";
+import { stripHintComments } from "./hints";
+
+export const OPERATORS = ["off-by-one", "remove-await", "swap-comparison", "drop-header", "bun-option"] as const;
+
+export type Operator = (typeof OPERATORS)[number];
+
+export interface Mutant {
+  operator: Operator;
+  /** 1-based line of the mutated code */
+  line: number;
+  /** The source text that is replaced, and what replaces it */
+  original: string;
+  mutated: string;
+  start: number;
+  end: number;
+}
+
+const SWAPPED: Partial<Record<ts.SyntaxKind, string>> = {
+  [ts.SyntaxKind.LessThanToken]: "<=",
+  [ts.SyntaxKind.LessThanEqualsToken]: "<",
+  [ts.SyntaxKind.GreaterThanToken]: ">=",
+  [ts.SyntaxKind.GreaterThanEqualsToken]: ">",
+  [ts.SyntaxKind.EqualsEqualsEqualsToken]: "!==",
+  [ts.SyntaxKind.ExclamationEqualsEqualsToken]: "===",
+  [ts.SyntaxKind.EqualsEqualsToken]: "!=",
+  [ts.SyntaxKind.ExclamationEqualsToken]: "==",
+};
+
+// Options that only say where a server listens; leaving them out breaks the test setup, not the code
+const SETUP_OPTIONS = ["port", "hostname"];
+
+// Methods whose numeric arguments are positions in a string or array
+const INDEX_METHODS = ["slice", "substring", "substr", "at", "splice"];
+
+function propertyName(node: ts.PropertyAssignment, file: ts.SourceFile): string {
+  return ts.isIdentifier(node.name) || ts.isStringLiteral(node.name) ? node.name.text : node.name.getText(file);
+}
+
+/**
+ * Whether an object literal holds headers: the value of a "headers" property
+ * or the argument of `new Headers()`.
+ */
+function isHeaderObject(node: ts.ObjectLiteralExpression, file: ts.SourceFile): boolean {
+  const parent = node.parent;
+  if (ts.isPropertyAssignment(parent)) {
+    return propertyName(parent, file).toLowerCase() === "headers";
+  }
+  return ts.isNewExpression(parent) && parent.expression.getText(file) === "Headers";
+}
+
+function isBunCall(node: ts.ObjectLiteralExpression, file: ts.SourceFile): boolean {
+  const parent = node.parent;
+  return ts.isCallExpression(parent) && parent.arguments.includes(node) && /^Bun\.\w+/.test(parent.expression.getText(file));
+}
+
+/**
+ * Span that removes an object property together with its separator.
+ */
+function propertySpan(node: ts.ObjectLiteralElementLike, file: ts.SourceFile): { start: number; end: number } {
+  const text = file.text;
+  let end = node.getEnd();
+  if (text[end] === ",") end++;
+  return { start: node.getFullStart(), end };
+}
+
+/**
+ * List every mutant of a TypeScript source file, in source order.
+ */
+export function findMutants(source: string, fileName: string): Mutant[] {
+  const file = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true);
+  const mutants: Mutant[] = [];
+
+  // `at` is where the mutated code starts, past any comments the edit removes with it
+  const add = (operator: Operator, start: number, end: number, mutated: string, at = start) => {
+    const original = source.slice(start, end);
+    if (original === mutated) return;
+    const line = file.getLineAndCharacterOfPosition(at).line + 1;
+    mutants.push({ operator, line, original, mutated, start, end });
+  };
+
+  const offByOne = (literal: ts.Expression) => {
+    if (!ts.isNumericLiteral(literal)) return;
+    const value = Number(literal.text);
+    if (!Number.isInteger(value)) return;
+    const start = literal.getStart(file);
+    add("off-by-one", start, literal.getEnd(), String(value + 1));
+    if (value > 0) add("off-by-one", start, literal.getEnd(), String(value - 1));
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isElementAccessExpression(node)) {
+      offByOne(node.argumentExpression);
+    } else if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      INDEX_METHODS.includes(node.expression.name.text)
+    ) {
+      node.arguments.forEach(offByOne);
+    } else if (ts.isAwaitExpression(node)) {
+      add("remove-await", node.getStart(file), node.expression.getStart(file), "");
+    } else if (ts.isBinaryExpression(node) && SWAPPED[node.operatorToken.kind]) {
+      add("swap-comparison", node.operatorToken.getStart(file), node.operatorToken.getEnd(), SWAPPED[node.operatorToken.kind]!);
+    } else if (ts.isObjectLiteralExpression(node) && isHeaderObject(node, file)) {
+      for (const property of node.properties) {
+        const { start, end } = propertySpan(property, file);
+        add("drop-header", start, end, "", property.getStart(file));
+      }
+    } else if (ts.isExpressionStatement(node) && /^\w+\.headers\.(set|append)\(|^headers\.(set|append)\(/.test(node.expression.getText(file))) {
+      add("drop-header", node.getFullStart(), node.getEnd(), "", node.getStart(file));
+    } else if (ts.isObjectLiteralExpression(node) && isBunCall(node, file)) {
+      for (const property of node.properties) {
+        if (ts.isPropertyAssignment(property) && property.initializer.kind === ts.SyntaxKind.TrueKeyword) {
+          add("bun-option", property.initializer.getStart(file), property.initializer.getEnd(), "false");
+        } else if (ts.isPropertyAssignment(property) && property.initializer.kind === ts.SyntaxKind.FalseKeyword) {
+          add("bun-option", property.initializer.getStart(file), property.initializer.getEnd(), "true");
+        } else if (ts.isPropertyAssignment(property) && !SETUP_OPTIONS.includes(propertyName(property, file))) {
+          // Leaving out a handler such as fetch() is a different task, not a wrong option
+          const { start, end } = propertySpan(property, file);
+          add("bun-option", start, end, "", property.getStart(file));
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(file);
+  return mutants;
+}
+
+export function applyMutant(source: string, mutant: Mutant): string {
+  return source.slice(0, mutant.start) + mutant.mutated + source.slice(mutant.end);
+}
+
+/**
+ * Order mutants for trying: one of each operator in turn, so a task's
+ * variants are not all the same kind of bug.
+ */
+export function interleave<T extends { operator: Operator }>(mutants: T[]): T[] {
+  const byOperator = OPERATORS.map(op => mutants.filter(m => m.operator === op));
+  const ordered: T[] = [];
+  for (let i = 0; ordered.length < mutants.length; i++) {
+    for (const group of byOperator) {
+      if (i < group.length) ordered.push(group[i]!);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Describe a mutant in one line, e.g. `off-by-one at line 27: 3 -> 2`.
+ */
+export function formatMutant(mutant: Mutant): string {
+  const show = (text: string) =>
+    text.trim() === "" ? "(removed)" : stripHintComments(text).trim().replace(/\s+/g, " ");
+  return `${mutant.operator} at line ${mutant.line}: ${show(mutant.original)} -> ${show(mutant.mutated)}`;
+}
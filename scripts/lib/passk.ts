@@ -0,0 +1,102 @@
+/**
+ * pass@k over several candidate patches per task.
+ *
+ * With n samples of which c resolve a task, pass@k is the chance that at
+ * least one of k samples drawn without replacement resolves it. The
+ * unbiased estimator 1 - C(n-c, k) / C(n, k) is computed as a running
+ * product, which stays exact enough for any sample count. Groups (categories
+ * and the whole run) score the mean of their task values; a task with fewer
+ * than k samples has no pass@k and is left out of that k.
+ *
+ * Every task is counted over the whole sample set: a sample without a patch
+ * for a task failed it, or leaving it out would inflate the task's pass@k.
+ */
+
+import type { TaskReport } from "./report";
+
+export interface TaskPassAtK {
+  task: string;
+  category?: string;
+  /** Samples counted, and how many of them resolved the task */
+  samples: number;
+  resolved: number;
+  /** Samples with no patch for the task, counted as failed */
+  missing: number;
+  /** pass@k by k */
+  passAtK: Record<string, number>;
+}
+
+export interface PassAtKReport {
+  k: number[];
+  overall: Record<string, number>;
+  byCategory: Record<string, Record<string, number>>;
+  tasks: TaskPassAtK[];
+}
+
+/**
+ * Unbiased pass@k for n samples with c correct. Requires k <= n.
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n - c < k) {
+    return 1;
+  }
+  let fail = 1;
+  for (let i = n - c + 1; i <= n; i++) {
+    fail *= 1 - k / i;
+  }
+  return 1 - fail;
+}
+
+function meanByK(tasks: TaskPassAtK[], ks: number[]): Record<string, number> {
+  const means: Record<string, number> = {};
+  for (const k of ks) {
+    const values = tasks.flatMap(t => (k in t.passAtK ? [t.passAtK[k]!] : []));
+    if (values.length > 0) means[k] = values.reduce((n, v) => n + v, 0) / values.length;
+  }
+  return means;
+}
+
+/**
+ * Compute pass@k from the reports of every evaluated sample, out of
+ * sampleCount samples in all. Samples without a report for a task count as
+ * failed; skipped samples say nothing about the patch and are not counted.
+ */
+export function computePassAtK(reports: TaskReport[], ks: number[], sampleCount: number): PassAtKReport {
+  const byTask = new Map<string, TaskReport[]>();
+  for (const r of reports) {
+    byTask.set(r.task, [...(byTask.get(r.task) ?? []), r]);
+  }
+
+  const tasks: TaskPassAtK[] = [...byTask]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([task, samples]) => {
+      const n = sampleCount - samples.filter(s => s.outcome === "skipped").length;
+      if (n <= 0) {
+        return [];
+      }
+      const c = samples.filter(s => s.outcome === "pass").length;
+      return [
+        {
+          task,
+          category: samples[0]!.category,
+          samples: n,
+          resolved: c,
+          missing: sampleCount - samples.length,
+          passAtK: Object.fromEntries(ks.filter(k => k <= n).map(k => [k, passAtK(n, c, k)])),
+        },
+      ];
+    });
+
+  const categories = new Map<string, TaskPassAtK[]>();
+  for (const t of tasks) {
+    const name = t.category ?? "Unknown";
+    categories.set(name, [...(categories.get(name) ?? []), t]);
+  }
+
+  return {
+    k: ks,
+    overall: meanByK(tasks, ks),
+    byCategory: Object.fromEntries([...categories].map(([name, members]) => [name, meanByK(members, ks)])),
+    tasks,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Minimal unified diff handling for model patches.
+ *
+ * Patches may be written relative to a task directory (src/server.ts) or to
+ * the repository root (tasks/task-001-content-length/src/server.ts), and a
+ * single patch may touch several tasks. These helpers split a patch into
+ * per-file sections and rebase every path onto its task directory so the
+ * result can be applied with `git apply` inside a task sandbox.
+ */
+
+export interface FileDiff {
+  /** Path before the change, without a/ prefix; null for new files */
+  oldPath: string | null;
+  /** Path after the change, without b/ prefix; null for deleted files */
+  newPath: string | null;
+  /** Raw lines of this file's section, headers included */
+  lines: string[];
+}
+
+const DEV_NULL = "/dev/null";
+
+function stripPrefix(path: string): string | null {
+  // Headers may carry a tab-separated timestamp after the path
+  const clean = path.split("\t")[0]!.trim();
+  if (clean === DEV_NULL) return null;
+  return clean.replace(/^[ab]\//, "");
+}
+
+/**
+ * Split a unified diff into per-file sections.
+ * Understands both `diff --git` output and plain `diff -u` output.
+ */
+export function parsePatch(text: string): FileDiff[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const files: FileDiff[] = [];
+  let current: FileDiff | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const startsGit = line.startsWith("diff --git ");
+    // Plain unified diffs have no "diff" line, so a section starts at a
+    // "--- " / "+++ " / "@@" triple unless we are inside a git header
+    const inGitHeader = current?.lines[0]?.startsWith("diff --git ") && !current.lines.some(l => l.startsWith("@@"));
+    const startsPlain =
+      !inGitHeader && line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ") && lines[i + 2]?.startsWith("@@");
+
+    if (startsGit || startsPlain) {
+      current = { oldPath: null, newPath: null, lines: [] };
+      files.push(current);
+
+      if (startsGit) {
+        const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+        if (match) {
+          current.oldPath = match[1]!;
+          current.newPath = match[2]!;
+        }
+      }
+    }
+
+    if (!current) continue;
+    current.lines.push(line);
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      current.oldPath = stripPrefix(line.slice(4));
+      current.newPath = stripPrefix(lines[i + 1]!.slice(4));
+    } else if (line.startsWith("new file mode")) {
+      current.oldPath = null;
+    } else if (line.startsWith("deleted file mode")) {
+      current.newPath = null;
+    }
+  }
+
+  // Drop the trailing empty line left by a final newline
+  for (const file of files) {
+    while (file.lines.length > 0 && file.lines[file.lines.length - 1] === "") {
+      file.lines.pop();
+    }
+  }
+
+  return files;
+}
+
+/**
+ * The path a file diff applies to, preferring the new path.
+ */
+export function filePath(file: FileDiff): string {
+  return (file.newPath ?? file.oldPath)!;
+}
+
+/**
+ * Find which task a repository-relative path belongs to, if any.
+ */
+export function taskOfPath(path: string): { task: string; rel: string } | null {
+  const match = path.match(/^tasks\/(task-[^/]+)\/(.+)$/);
+  return match ? { task: match[1]!, rel: match[2]! } : null;
+}
+
+function rebasePath(path: string, task: string): string {
+  const owner = taskOfPath(path);
+  return owner && owner.task === task ? owner.rel : path;
+}
+
+/**
+ * Rewrite the paths of a file diff so they are relative to the task directory.
+ */
+export function rebaseFileDiff(file: FileDiff, task: string): FileDiff {
+  const oldPath = file.oldPath && rebasePath(file.oldPath, task);
+  const newPath = file.newPath && rebasePath(file.newPath, task);
+
+  const firstHunk = file.lines.findIndex(l => l.startsWith("@@"));
+
+  const lines = file.lines.map((line, i) => {
+    // Hunk bodies may contain removed "-- " or added "++ " lines
+    if (firstHunk !== -1 && i >= firstHunk) {
+      return line;
+    }
+    if (line.startsWith("diff --git ")) {
+      return `diff --git a/${oldPath ?? newPath} b/${newPath ?? oldPath}`;
+    }
+    if (line.startsWith("--- ") && !line.startsWith("--- " + DEV_NULL)) {
+      return `--- a/${oldPath}`;
+    }
+    if (line.startsWith("+++ ") && !line.startsWith("+++ " + DEV_NULL)) {
+      return `+++ b/${newPath}`;
+    }
+    for (const prefix of ["rename from ", "rename to ", "copy from ", "copy to "]) {
+      if (line.startsWith(prefix)) {
+        return prefix + rebasePath(line.slice(prefix.length), task);
+      }
+    }
+    return line;
+  });
+
+  return { oldPath, newPath, lines };
+}
+
+/**
+ * Group the file diffs of a multi-task patch by task.
+ * Files outside tasks/ are returned under the empty string.
+ */
+export function splitByTask(files: FileDiff[]): Map<string, FileDiff[]> {
+  const byTask = new Map<string, FileDiff[]>();
+
+  for (const file of files) {
+    const task = taskOfPath(filePath(file))?.task ?? "";
+    byTask.set(task, [...(byTask.get(task) ?? []), file]);
+  }
+
+  return byTask;
+}
+
+export function formatPatch(files: FileDiff[]): string {
+  return files.map(f => f.lines.join("\n")).join("\n") + "\n";
+}
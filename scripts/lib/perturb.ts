@@ -0,0 +1,521 @@
+/**
+ * Surface perturbations of tasks, for detecting benchmark contamination.
+ *
+ * A perturbed task behaves exactly like the original but reads differently:
+ * - strings: data strings shared by the code and its tests (tokens, ids such
+ *   as "user-1") are changed everywhere
+ * - ports: the default ports used without PORT are moved
+ * - reorder-functions: runs of top-level function declarations are shuffled
+ * - rename-identifiers: names declared at the top level of src/ and
+ *   solution/ are renamed in every file that uses them
+ * - rename-files: source files are renamed, with their solution, test and
+ *   snapshot files and every path that refers to them
+ *
+ * A model that solves the original from memory rather than from the code
+ * tends to do worse on the perturbed copy. Perturbations are driven by a
+ * seed, so a seed always produces the same copy.
+ */
+
+import ts from "typescript";
+import { basename, dirname, join } from "path";
+
+export const PERTURBATIONS = ["strings", "ports", "reorder-functions", "rename-identifiers", "rename-files"] as const;
+
+export type Perturbation = (typeof PERTURBATIONS)[number];
+
+/** Text files of a task, by path relative to the task directory */
+export type TaskFiles = Map<string, string>;
+
+export interface PerturbationRecord {
+  applied: Perturbation[];
+  strings: Record<string, string>;
+  ports: Record<string, string>;
+  /** Files whose function declarations were reordered */
+  reordered: string[];
+  identifiers: Record<string, string>;
+  /** Old to new path, relative to the task directory */
+  files: Record<string, string>;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Word substitutions for renaming, applied to each camelCase, snake_case or kebab-case word
+const SYNONYMS: Record<string, string> = {
+  get: "read",
+  read: "load",
+  load: "fetch",
+  set: "assign",
+  write: "persist",
+  save: "store",
+  create: "make",
+  build: "assemble",
+  handle: "process",
+  process: "handle",
+  run: "execute",
+  execute: "run",
+  check: "verify",
+  validate: "verify",
+  is: "check",
+  has: "contains",
+  parse: "decode",
+  format: "render",
+  send: "dispatch",
+  find: "lookup",
+  update: "modify",
+  delete: "remove",
+  remove: "drop",
+  add: "append",
+  compare: "rank",
+  connect: "attach",
+  user: "member",
+  users: "members",
+  data: "payload",
+  value: "entry",
+  values: "entries",
+  config: "settings",
+  server: "service",
+  client: "consumer",
+  file: "document",
+  files: "documents",
+  count: "total",
+  message: "note",
+  messages: "notes",
+  item: "element",
+  items: "elements",
+  result: "outcome",
+  results: "outcomes",
+  version: "release",
+  versions: "releases",
+  range: "span",
+  hash: "digest",
+  token: "credential",
+  tokens: "credentials",
+  db: "database",
+  stream: "flow",
+  output: "emitted",
+  input: "given",
+  error: "failure",
+  errors: "failures",
+  options: "settings",
+  request: "call",
+  response: "reply",
+  key: "name",
+  keys: "names",
+  app: "program",
+  worker: "helper",
+  cache: "memo",
+};
+
+const CODE_FILE = /\.[cm]?[jt]sx?$/;
+
+// Data strings look like "token-abc123" or "user_1"; encodings and algorithms look alike but must stay
+const DATA_STRING = /^[A-Za-z][A-Za-z0-9]*(?:[-_][A-Za-z0-9]+)+$/;
+const PROTOCOL_STRING = /^(utf|iso|sha|md|ucs|latin|base|windows|es|x|bun|node)[-_]/i;
+
+/**
+ * A seeded random number generator (mulberry32 over an FNV-1a hash of the seed).
+ */
+export function seededRandom(seed: string): () => number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), 1 | h);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Apply fn to the inline code and code blocks of a Markdown document.
+ */
+function replaceInCode(markdown: string, fn: (code: string) => string): string {
+  return markdown.replace(/```[\s\S]*?```|`[^`\n]+`/g, fn);
+}
+
+function applyEdits(text: string, edits: Edit[]): string {
+  let out = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+  return out;
+}
+
+function parse(path: string, text: string): ts.SourceFile {
+  const kind = path.endsWith("x") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  return ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true, kind);
+}
+
+function walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  ts.forEachChild(node, child => walk(child, visit));
+}
+
+function codeFiles(files: TaskFiles, dirs = ["src", "test", "hidden", "solution"]): string[] {
+  return [...files.keys()].filter(path => CODE_FILE.test(path) && dirs.includes(path.split("/")[0]!)).sort();
+}
+
+/**
+ * Rewrite each code file from the edits found on its syntax tree.
+ */
+function editCode(files: TaskFiles, paths: string[], find: (file: ts.SourceFile) => Edit[]): void {
+  for (const path of paths) {
+    const text = files.get(path)!;
+    const edits = find(parse(path, text));
+    if (edits.length > 0) files.set(path, applyEdits(text, edits));
+  }
+}
+
+/**
+ * Rename a name word by word, e.g. getUserCount -> readMemberTotal.
+ * Names without a known word get a "my" prefix.
+ */
+function rename(name: string, taken: Set<string>): string | undefined {
+  const words = name.split(/(?<=[a-z0-9])(?=[A-Z])|[_-]/);
+  const separators = name.match(/[_-]/g) ?? [];
+  const upper = name === name.toUpperCase();
+
+  const renamed = words.map(word => {
+    const synonym = SYNONYMS[word.toLowerCase()];
+    if (!synonym) return word;
+    if (upper) return synonym.toUpperCase();
+    return word[0] === word[0]!.toUpperCase() ? synonym[0]!.toUpperCase() + synonym.slice(1) : synonym;
+  });
+
+  let candidate = renamed.reduce((out, word, i) => out + (i > 0 ? (separators[i - 1] ?? "") : "") + word, "");
+  if (candidate === name) {
+    candidate = upper ? `MY_${name}` : name[0] === name[0]!.toUpperCase() ? `My${name}` : `my${name[0]!.toUpperCase()}${name.slice(1)}`;
+  }
+  return taken.has(candidate) ? undefined : candidate;
+}
+
+function perturbStrings(files: TaskFiles, random: () => number, record: PerturbationRecord): void {
+  const inCode = new Set<string>();
+  for (const path of codeFiles(files, ["src", "solution"])) {
+    walk(parse(path, files.get(path)!), node => {
+      if ((ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) && DATA_STRING.test(node.text)) {
+        if (/\d/.test(node.text) && !PROTOCOL_STRING.test(node.text)) inCode.add(node.text);
+      }
+    });
+  }
+
+  const all = [...files.values()].join("\n");
+  const tests = codeFiles(files, ["test", "hidden"]).map(path => files.get(path)!).join("\n");
+  const pattern = (value: string) => new RegExp(`(?<![\\w-])${escapeRegExp(value)}(?![\\w-])`, "g");
+
+  for (const value of [...inCode].sort()) {
+    // Only strings the tests also use are data the two sides agree on
+    if (!pattern(value).test(tests)) continue;
+
+    const [head, ...rest] = value.split(/(?=[-_])/);
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const tail = rest
+        .join("")
+        .replace(/[0-9]/g, () => String(Math.floor(random() * 10)))
+        .replace(/[a-z]/g, () => String.fromCharCode(97 + Math.floor(random() * 26)))
+        .replace(/[A-Z]/g, () => String.fromCharCode(65 + Math.floor(random() * 26)));
+      const replacement = head + tail;
+      if (replacement !== value && !all.includes(replacement) && !Object.values(record.strings).includes(replacement)) {
+        record.strings[value] = replacement;
+        break;
+      }
+    }
+  }
+
+  for (const [path, text] of files) {
+    let out = text;
+    for (const [value, replacement] of Object.entries(record.strings)) {
+      out = out.replace(pattern(value), replacement);
+    }
+    files.set(path, out);
+  }
+}
+
+/**
+ * Find the default ports in `PORT ?? 3000` and `PORT || "3000"` fallbacks.
+ */
+function portFallbacks(file: ts.SourceFile): (ts.NumericLiteral | ts.StringLiteral)[] {
+  const found: (ts.NumericLiteral | ts.StringLiteral)[] = [];
+  walk(file, node => {
+    if (
+      ts.isBinaryExpression(node) &&
+      [ts.SyntaxKind.QuestionQuestionToken, ts.SyntaxKind.BarBarToken].includes(node.operatorToken.kind) &&
+      node.left.getText(file).includes("PORT") &&
+      (ts.isNumericLiteral(node.right) || ts.isStringLiteral(node.right)) &&
+      /^\d+$/.test(node.right.text)
+    ) {
+      found.push(node.right);
+    }
+  });
+  return found;
+}
+
+function perturbPorts(files: TaskFiles, random: () => number, record: PerturbationRecord): void {
+  const offset = 1000 * (1 + Math.floor(random() * 5));
+
+  // A default the tests check outside a fallback of their own is behavior, not where the code listens
+  const checked = new Set<string>();
+  for (const path of codeFiles(files, ["test", "hidden"])) {
+    const file = parse(path, files.get(path)!);
+    const rest = applyEdits(file.text, portFallbacks(file).map(l => ({ start: l.getStart(file), end: l.getEnd(), text: "" })));
+    for (const port of rest.match(/\b\d{4,5}\b/g) ?? []) checked.add(port);
+  }
+
+  editCode(files, codeFiles(files), file =>
+    portFallbacks(file).flatMap(literal => {
+      const port = Number(literal.text);
+      if (port + offset > 65535 || checked.has(literal.text)) return [];
+      record.ports[literal.text] = String(port + offset);
+      const raw = literal.getText(file);
+      return [{ start: literal.getStart(file), end: literal.getEnd(), text: raw.replace(literal.text, String(port + offset)) }];
+    }),
+  );
+}
+
+function perturbOrder(files: TaskFiles, random: () => number, record: PerturbationRecord): void {
+  editCode(files, codeFiles(files, ["src", "solution"]), file => {
+    const edits: Edit[] = [];
+    const statements = file.statements;
+
+    // The first statement carries the file's header comment, so runs start after it
+    for (let i = 1; i < statements.length; ) {
+      let end = i;
+      const names = new Set<string>();
+      while (end < statements.length) {
+        const s = statements[end]!;
+        if (!ts.isFunctionDeclaration(s) || !s.body || !s.name || names.has(s.name.text)) break;
+        names.add(s.name.text);
+        end++;
+      }
+      if (end - i < 2) {
+        i = Math.max(end, i + 1);
+        continue;
+      }
+
+      const run = statements.slice(i, end);
+      const order = run.map((_, k) => k);
+      for (let k = order.length - 1; k > 0; k--) {
+        const j = Math.floor(random() * (k + 1));
+        [order[k], order[j]] = [order[j]!, order[k]!];
+      }
+      if (order.every((k, n) => k === n)) order.push(order.shift()!);
+
+      const text = order.map(k => file.text.slice(run[k]!.getFullStart(), run[k]!.getEnd())).join("");
+      edits.push({ start: run[0]!.getFullStart(), end: run[run.length - 1]!.getEnd(), text });
+      i = end;
+    }
+
+    if (edits.length > 0) record.reordered.push(file.fileName);
+    return edits;
+  });
+}
+
+/**
+ * Whether an identifier names a property rather than a variable, so renaming
+ * it would change an object's shape.
+ */
+function isPropertyName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+    (ts.isQualifiedName(parent) && parent.right === node) ||
+    (ts.isBindingElement(parent) && parent.propertyName === node) ||
+    ((ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isMethodSignature(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) ||
+      ts.isEnumMember(parent)) &&
+      parent.name === node)
+  );
+}
+
+function perturbIdentifiers(files: TaskFiles, record: PerturbationRecord): void {
+  const paths = codeFiles(files);
+  const declared = new Set<string>();
+  const properties = new Set<string>();
+  const taken = new Set<string>();
+
+  for (const path of paths) {
+    const file = parse(path, files.get(path)!);
+    if (["src", "solution"].includes(path.split("/")[0]!)) {
+      for (const s of file.statements) {
+        if (
+          (ts.isFunctionDeclaration(s) ||
+            ts.isClassDeclaration(s) ||
+            ts.isInterfaceDeclaration(s) ||
+            ts.isTypeAliasDeclaration(s) ||
+            ts.isEnumDeclaration(s)) &&
+          s.name
+        ) {
+          declared.add(s.name.text);
+        } else if (ts.isVariableStatement(s)) {
+          for (const d of s.declarationList.declarations) {
+            if (ts.isIdentifier(d.name)) declared.add(d.name.text);
+          }
+        }
+      }
+    }
+    walk(file, node => {
+      if (ts.isIdentifier(node)) {
+        taken.add(node.text);
+        // Names also used as properties may be reached through a module object or a key
+        if (isPropertyName(node)) properties.add(node.text);
+      }
+    });
+  }
+
+  for (const name of [...declared].sort()) {
+    if (properties.has(name)) continue;
+    const renamed = rename(name, taken);
+    if (renamed) {
+      record.identifiers[name] = renamed;
+      taken.add(renamed);
+    }
+  }
+
+  const map = record.identifiers;
+  if (files.has("README.md")) {
+    const names = Object.keys(map).map(escapeRegExp).join("|");
+    if (names) {
+      const pattern = new RegExp(`(?<![\\w$.])(${names})(?![\\w$])`, "g");
+      files.set("README.md", replaceInCode(files.get("README.md")!, code => code.replace(pattern, name => map[name]!)));
+    }
+  }
+
+  editCode(files, paths, file => {
+    const edits: Edit[] = [];
+    walk(file, node => {
+      if (!ts.isIdentifier(node) || !Object.hasOwn(map, node.text) || isPropertyName(node)) return;
+      const parent = node.parent;
+      const start = node.getStart(file);
+
+      // Imports from packages keep the package's names
+      if (ts.isImportSpecifier(parent)) {
+        const from = parent.parent.parent.parent.moduleSpecifier;
+        if (!ts.isStringLiteral(from) || !from.text.startsWith(".")) return;
+      }
+
+      // A shorthand property or destructured name keeps its key
+      if (ts.isShorthandPropertyAssignment(parent) || (ts.isBindingElement(parent) && !parent.propertyName && ts.isObjectBindingPattern(parent.parent))) {
+        edits.push({ start, end: node.getEnd(), text: `${node.text}: ${map[node.text]}` });
+        return;
+      }
+      edits.push({ start, end: node.getEnd(), text: map[node.text]! });
+    });
+    return edits;
+  });
+}
+
+function perturbFileNames(files: TaskFiles, record: PerturbationRecord): void {
+  const existing = new Set([...files.keys()].map(path => basename(path).split(".")[0]!));
+  const bases = new Map<string, string>();
+
+  for (const path of codeFiles(files, ["src"])) {
+    const base = basename(path).split(".")[0]!;
+    if (bases.has(base) || /\.(test|spec)\./.test(path)) continue;
+    const renamed = rename(base, existing);
+    if (renamed) {
+      bases.set(base, renamed);
+      existing.add(renamed);
+    }
+  }
+  if (bases.size === 0) return;
+
+  const ext = "(?:\\.(?:test|spec))?\\.[cm]?[jt]sx?";
+  const renameLiteral = (raw: string) => {
+    let out = raw;
+    for (const [base, renamed] of bases) {
+      // A path ending in the file, with or without extension, or the bare file name with its extension
+      out = out
+        .replace(new RegExp(`/${escapeRegExp(base)}(?=(${ext})?(["'\`]|\\$\\{)$)`), `/${renamed}`)
+        .replace(new RegExp(`^(["'\`}])${escapeRegExp(base)}(?=${ext}(["'\`]|\\$\\{)$)`), `$1${renamed}`);
+    }
+    return out;
+  };
+
+  editCode(files, codeFiles(files), file => {
+    const edits: Edit[] = [];
+    walk(file, node => {
+      if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateLiteralToken(node)) {
+        const raw = node.getText(file);
+        const renamed = renameLiteral(raw);
+        if (renamed !== raw) edits.push({ start: node.getStart(file), end: node.getEnd(), text: renamed });
+      }
+    });
+    return edits;
+  });
+
+  if (files.has("README.md")) {
+    let readme = files.get("README.md")!;
+    for (const [base, renamed] of bases) {
+      readme = readme.replace(new RegExp(`\\b${escapeRegExp(base)}(?=${ext}\\b)`, "g"), renamed);
+    }
+    files.set("README.md", readme);
+  }
+
+  // Move the files: sources and solutions, their tests and snapshots
+  for (const path of [...files.keys()]) {
+    const [base, ...rest] = basename(path).split(".");
+    const suffix = `.${rest.join(".")}`;
+    if (!bases.has(base!) || !new RegExp(`^${ext}(\\.snap)?$`).test(suffix)) continue;
+    const moved = join(dirname(path), bases.get(base!)! + suffix);
+    files.set(moved, files.get(path)!);
+    files.delete(path);
+    record.files[path] = moved;
+  }
+}
+
+/**
+ * Perturb the text files of a task in place. `kinds` selects the
+ * perturbations; the seed and task name fix every random choice.
+ */
+export function perturbTask(task: string, files: TaskFiles, kinds: Perturbation[], seed: string): PerturbationRecord {
+  const random = seededRandom(`${seed}:${task}`);
+  const record: PerturbationRecord = { applied: [], strings: {}, ports: {}, reordered: [], identifiers: {}, files: {} };
+
+  for (const kind of PERTURBATIONS) {
+    if (!kinds.includes(kind)) continue;
+    if (kind === "strings") perturbStrings(files, random, record);
+    else if (kind === "ports") perturbPorts(files, random, record);
+    else if (kind === "reorder-functions") perturbOrder(files, random, record);
+    else if (kind === "rename-identifiers") perturbIdentifiers(files, record);
+    else perturbFileNames(files, record);
+  }
+
+  const changed = {
+    strings: Object.keys(record.strings).length > 0,
+    ports: Object.keys(record.ports).length > 0,
+    "reorder-functions": record.reordered.length > 0,
+    "rename-identifiers": Object.keys(record.identifiers).length > 0,
+    "rename-files": Object.keys(record.files).length > 0,
+  };
+  record.applied = PERTURBATIONS.filter(kind => changed[kind]);
+  return record;
+}
+
+/**
+ * Translate a test id ("<file> > <name>", see baseline.ts) of the original
+ * task to the perturbed one.
+ */
+export function perturbTestId(id: string, record: PerturbationRecord): string {
+  const [file, ...name] = id.split(" > ");
+  const moved = Object.entries(record.files).find(([from]) => from.replace(/^(test|solution)\//, "") === file)?.[1];
+  let out = [moved ? moved.replace(/^(test|solution)\//, "") : file, ...name].join(" > ");
+  for (const [value, replacement] of Object.entries(record.strings)) {
+    out = out.replace(new RegExp(`(?<![\\w-])${escapeRegExp(value)}(?![\\w-])`, "g"), replacement);
+  }
+  return out;
+}
@@ -0,0 +1,38 @@
+/**
+ * Run async jobs with bounded concurrency.
+ */
+
+import { availableParallelism } from "os";
+
+/**
+ * Resolve the worker count from a --jobs value, falling back to the
+ * BENCH_JOBS environment variable and then to the number of CPUs.
+ */
+export function parseJobs(value: string | undefined): number {
+  const raw = value ?? process.env.BENCH_JOBS;
+  const jobs = raw === undefined ? availableParallelism() : Number(raw);
+
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    throw new Error(`Invalid job count: ${raw}`);
+  }
+  return jobs;
+}
+
+/**
+ * Call fn on every item with at most `jobs` calls in flight.
+ * Results are returned in the order of items, regardless of completion order.
+ */
+export async function runPool<T, R>(items: T[], jobs: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(jobs, items.length) }, worker));
+  return results;
+}
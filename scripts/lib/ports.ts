@@ -0,0 +1,64 @@
+/**
+ * Free port allocation for tasks that bind sockets.
+ *
+ * Tasks declare how many consecutive ports they need in task.json and read
+ * the first one from the PORT environment variable. Blocks handed out here
+ * stay reserved until released, so tasks running concurrently never share a
+ * port, and every port is checked to be free for both TCP and UDP.
+ */
+
+const PORT_RANGE_START = 20000;
+const PORT_RANGE_END = 30000;
+
+const reserved = new Set<number>();
+// Start at a random offset so concurrent harness processes rarely collide
+let next = PORT_RANGE_START + Math.floor(Math.random() * (PORT_RANGE_END - PORT_RANGE_START));
+
+async function isPortFree(port: number): Promise<boolean> {
+  try {
+    const tcp = Bun.listen({ hostname: "0.0.0.0", port, socket: { data() {} } });
+    tcp.stop(true);
+    const udp = await Bun.udpSocket({ port });
+    udp.close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reserve count consecutive free ports and return the first one.
+ */
+export async function allocatePorts(count: number): Promise<number> {
+  const attempts = (PORT_RANGE_END - PORT_RANGE_START) / count;
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (next + count > PORT_RANGE_END) {
+      next = PORT_RANGE_START;
+    }
+    const base = next;
+    next += count;
+
+    const block = Array.from({ length: count }, (_, i) => base + i);
+    if (block.some(p => reserved.has(p))) continue;
+
+    // Reserve before the async checks so concurrent callers skip this block
+    block.forEach(p => reserved.add(p));
+    const free = await Promise.all(block.map(isPortFree));
+    if (free.every(Boolean)) {
+      return base;
+    }
+    block.forEach(p => reserved.delete(p));
+  }
+
+  throw new Error(`No block of ${count} free ports in ${PORT_RANGE_START}-${PORT_RANGE_END}`);
+}
+
+/**
+ * Return a block reserved by allocatePorts().
+ */
+export function releasePorts(base: number, count: number): void {
+  for (let p = base; p < base + count; p++) {
+    reserved.delete(p);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Run a command in its own process group with a wall-clock limit.
+ *
+ * Test runs can leave workers, servers or child processes behind, and a
+ * hung run never exits on its own. Starting the command as a process group
+ * leader lets the whole tree be killed at once: when the limit expires, and
+ * again once the command exits, so nothing it spawned outlives the run.
+ */
+
+import { spawn } from "child_process";
+import { readdirSync, readFileSync } from "fs";
+
+export interface ProcessResult {
+  /** Exit code, null if the process was killed by a signal */
+  exitCode: number | null;
+  stderr: string;
+  timedOut: boolean;
+  /**
+   * Processes of the group still running when the command exited, as
+   * "<pid> <command line>". They are killed, but their presence is a leak.
+   */
+  lingering: string[];
+}
+
+/**
+ * List the processes in a process group. Uses /proc, so it finds nothing on
+ * systems without it.
+ */
+function groupMembers(pgid: number): string[] {
+  let pids: string[];
+  try {
+    pids = readdirSync("/proc").filter(entry => /^\d+$/.test(entry));
+  } catch {
+    return [];
+  }
+
+  const members: string[] = [];
+  for (const pid of pids) {
+    try {
+      // The command name in parentheses may contain spaces, the fields after it do not
+      const stat = readFileSync(`/proc/${pid}/stat`, "utf8");
+      const [state, , pgrp] = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+      if (Number(pgrp) !== pgid || state === "Z") continue;
+
+      const cmdline = readFileSync(`/proc/${pid}/cmdline`, "utf8").split("\0").join(" ").trim();
+      members.push(`${pid} ${cmdline}`);
+    } catch {
+      // Exited while we were looking
+    }
+  }
+  return members;
+}
+
+function killGroup(pid: number): void {
+  try {
+    process.kill(-pid, "SIGKILL");
+  } catch {
+    // The group is already gone
+  }
+}
+
+/**
+ * Run cmd in cwd and collect its stderr. stdout is discarded.
+ * With a timeout (milliseconds), the process group is killed when it expires.
+ */
+export function runProcessGroup(
+  cmd: string[],
+  options: { cwd: string; env: Record<string, string | undefined>; timeout?: number },
+): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(cmd[0]!, cmd.slice(1), {
+      cwd: options.cwd,
+      env: options.env,
+      detached: true,
+      stdio: ["ignore", "ignore", "pipe"],
+    });
+
+    const chunks: Buffer[] = [];
+    let timedOut = false;
+    let exitCode: number | null = null;
+    let lingering: string[] = [];
+
+    const timer =
+      options.timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            timedOut = true;
+            killGroup(child.pid!);
+          }, options.timeout);
+
+    child.stderr!.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.on("error", error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("exit", code => {
+      exitCode = code;
+      if (!timedOut) lingering = groupMembers(child.pid!);
+      // Take down anything the command left running, which would also keep stderr open
+      killGroup(child.pid!);
+    });
+    child.on("close", () => {
+      clearTimeout(timer);
+      resolve({ exitCode, stderr: Buffer.concat(chunks).toString(), timedOut, lingering });
+    });
+  });
+}
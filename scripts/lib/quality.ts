@@ -0,0 +1,408 @@
+/**
+ * Patch quality metrics against the reference solution.
+ *
+ * Passing the tests is not the whole story. For each applied patch this
+ * measures its size, how many of its changed lines lie outside the region
+ * the reference fix changes, and how close its edits are to the reference
+ * fix on the TypeScript AST. A patch that branches on literals from the
+ * tests the reference never mentions, such as `if (body === "こんにちは")`
+ * to hard-code a length in task-001, is flagged as special-casing test
+ * inputs.
+ *
+ * The reference fix is what testSolution() puts in place (see tasks.ts):
+ * solution/ over src/ for the symlink and copy strategies, solution/ over
+ * test/ for test-focused tasks.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import ts from "typescript";
+import type { Strategy } from "./manifest";
+import type { FileDiff } from "./patch";
+import { formatScore } from "./scoring";
+import { testDirs } from "./tasks";
+
+/** A file before and after a change, by path relative to the task; null where it does not exist */
+export interface FileChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface ChangeSize {
+  filesTouched: number;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+export interface SpecialCase {
+  path: string;
+  /** 1-based line of the literal in the patched file */
+  line: number;
+  /** The literal as written in the tests, e.g. "こんにちは" or 15 */
+  literal: string;
+}
+
+export interface PatchQuality extends ChangeSize {
+  /** Changed lines more than REGION_MARGIN lines away from every line the reference fix changes */
+  linesOutsideFix: number;
+  /** How alike the patch's AST edits are to the reference fix's, from 0 (nothing in common) to 1 (the same) */
+  astSimilarity: number;
+  reference: ChangeSize;
+  /** Test literals the patch compares against where the reference does not */
+  specialCases: SpecialCase[];
+}
+
+/** How far from the reference fix's changed lines a change still counts as inside the fix */
+const REGION_MARGIN = 3;
+
+/** Above this many line pairs, files are diffed as wholly replaced instead */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Numbers this small are everywhere, so comparing against them says nothing */
+const MIN_SPECIAL_NUMBER = 3;
+
+const CODE_FILE = /\.[cm]?[jt]sx?$/;
+
+interface LineEdit {
+  kind: "add" | "del";
+  /** 1-based line of the old file that is removed, or that the new line is inserted before */
+  line: number;
+}
+
+function splitLines(text: string | null): string[] {
+  return text ? text.replace(/\r\n/g, "\n").split("\n") : [];
+}
+
+function listFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .filter(f => !f.split("/").includes("node_modules") && statSync(join(dir, f)).isFile())
+    .sort();
+}
+
+function readOrNull(path: string): string | null {
+  return existsSync(path) ? readFileSync(path, "utf8") : null;
+}
+
+/**
+ * The files the reference solution changes, as testSolution() applies it.
+ */
+export function readReferenceFix(taskDir: string, strategy: Strategy): FileChange[] {
+  const solution = listFiles(join(taskDir, "solution"));
+  const target = strategy === "test-focused" ? "test" : "src";
+  // With the symlink strategy solution/ replaces src/ as a whole, so files missing from it are gone
+  const paths = strategy === "symlink" ? [...new Set([...solution, ...listFiles(join(taskDir, "src"))])] : solution;
+
+  return paths
+    .map(rel => ({
+      path: `${target}/${rel}`,
+      before: readOrNull(join(taskDir, target, rel)),
+      after: readOrNull(join(taskDir, "solution", rel)),
+    }))
+    .filter(change => change.before !== change.after);
+}
+
+/**
+ * The task's test files (visible and held out) by path relative to the task.
+ */
+export function readTestSources(taskDir: string): Map<string, string> {
+  const sources = new Map<string, string>();
+  for (const dir of testDirs(taskDir)) {
+    for (const rel of listFiles(join(taskDir, dir))) {
+      if (CODE_FILE.test(rel)) sources.set(`${dir}${rel}`, readFileSync(join(taskDir, dir, rel), "utf8"));
+    }
+  }
+  return sources;
+}
+
+/**
+ * Line-level edits turning before into after, from their longest common
+ * subsequence of lines.
+ */
+export function lineEdits(before: string | null, after: string | null): LineEdit[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...Array.from({ length: n }, (_, i): LineEdit => ({ kind: "del", line: start + i + 1 })),
+      ...Array.from({ length: m }, (): LineEdit => ({ kind: "add", line: endA + 1 })),
+    ];
+  }
+
+  // lcs[i * width + j]: length of the LCS of a[start + i..endA) and b[start + j..endB)
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const edits: LineEdit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[i * width + j + 1]! >= lcs[(i + 1) * width + j]!)) {
+      edits.push({ kind: "add", line: start + i + 1 });
+      j++;
+    } else {
+      edits.push({ kind: "del", line: start + i + 1 });
+      i++;
+    }
+  }
+  return edits;
+}
+
+function changeSize(changes: FileChange[]): ChangeSize {
+  const edits = changes.flatMap(c => lineEdits(c.before, c.after));
+  return {
+    filesTouched: changes.length,
+    linesAdded: edits.filter(e => e.kind === "add").length,
+    linesRemoved: edits.filter(e => e.kind === "del").length,
+  };
+}
+
+/**
+ * Old lines of each file within REGION_MARGIN lines of a reference edit.
+ */
+function fixRegions(reference: FileChange[]): Map<string, Set<number>> {
+  const regions = new Map<string, Set<number>>();
+  for (const change of reference) {
+    const region = new Set<number>();
+    for (const edit of lineEdits(change.before, change.after)) {
+      // An inserted line sits between the old lines around it
+      const from = (edit.kind === "add" ? edit.line - 1 : edit.line) - REGION_MARGIN;
+      for (let line = from; line <= edit.line + REGION_MARGIN; line++) region.add(line);
+    }
+    regions.set(change.path, region);
+  }
+  return regions;
+}
+
+function countOutsideFix(changes: FileChange[], reference: FileChange[]): number {
+  const regions = fixRegions(reference);
+  let outside = 0;
+  for (const change of changes) {
+    const region = regions.get(change.path);
+    for (const edit of lineEdits(change.before, change.after)) {
+      if (!region?.has(edit.line)) outside++;
+    }
+  }
+  return outside;
+}
+
+function parse(path: string, text: string): ts.SourceFile {
+  const kind = path.endsWith("x") ? ts.ScriptKind.TSX : path.endsWith("ts") ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+  return ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true, kind);
+}
+
+type Multiset = Map<string, number>;
+
+function add(set: Multiset, key: string, count = 1): void {
+  set.set(key, (set.get(key) ?? 0) + count);
+}
+
+/**
+ * Every AST node of a file as its kind and printed text, so formatting and
+ * comments do not count. Other files fall back to their trimmed lines.
+ */
+function fingerprints(path: string, text: string | null): Multiset {
+  const prints: Multiset = new Map();
+  if (text === null) {
+    return prints;
+  }
+  if (!CODE_FILE.test(path)) {
+    for (const line of splitLines(text)) {
+      if (line.trim()) add(prints, line.trim());
+    }
+    return prints;
+  }
+
+  const file = parse(path, text);
+  const printer = ts.createPrinter({ removeComments: true });
+  const visit = (node: ts.Node) => {
+    const printed = printer.printNode(ts.EmitHint.Unspecified, node, file);
+    add(prints, `${ts.SyntaxKind[node.kind]}:${Bun.hash(printed)}`);
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(file, visit);
+  return prints;
+}
+
+/**
+ * The nodes a change removes and adds, keyed by file.
+ */
+function astEdits(changes: FileChange[]): Multiset {
+  const edits: Multiset = new Map();
+  for (const change of changes) {
+    const before = fingerprints(change.path, change.before);
+    const after = fingerprints(change.path, change.after);
+    for (const [key, count] of before) {
+      const removed = count - (after.get(key) ?? 0);
+      if (removed > 0) add(edits, `${change.path}\0-${key}`, removed);
+    }
+    for (const [key, count] of after) {
+      const added = count - (before.get(key) ?? 0);
+      if (added > 0) add(edits, `${change.path}\0+${key}`, added);
+    }
+  }
+  return edits;
+}
+
+/**
+ * Weighted Jaccard similarity of the AST edits of two changes.
+ */
+function astSimilarity(changes: FileChange[], reference: FileChange[]): number {
+  const ours = astEdits(changes);
+  const theirs = astEdits(reference);
+  let shared = 0;
+  let total = 0;
+  for (const key of new Set([...ours.keys(), ...theirs.keys()])) {
+    shared += Math.min(ours.get(key) ?? 0, theirs.get(key) ?? 0);
+    total += Math.max(ours.get(key) ?? 0, theirs.get(key) ?? 0);
+  }
+  return total > 0 ? shared / total : 1;
+}
+
+/**
+ * The value of a string or number literal, so that "15" in a test matches
+ * 15 in the code; undefined for other nodes and for values too common to
+ * mean anything.
+ */
+function literalValue(node: ts.Node): string | undefined {
+  let value: string;
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    value = node.text;
+  } else if (ts.isNumericLiteral(node)) {
+    value = String(Number(node.text));
+  } else {
+    return undefined;
+  }
+  if (value.trim() === "" || Math.abs(Number(value)) < MIN_SPECIAL_NUMBER) {
+    return undefined;
+  }
+  return value;
+}
+
+const EQUALITY = new Set([
+  ts.SyntaxKind.EqualsEqualsEqualsToken,
+  ts.SyntaxKind.EqualsEqualsToken,
+  ts.SyntaxKind.ExclamationEqualsEqualsToken,
+  ts.SyntaxKind.ExclamationEqualsToken,
+]);
+
+/**
+ * Whether a literal is something the code branches on: a side of an
+ * equality, a case label or a lookup table key.
+ */
+function isBranchedOn(node: ts.Node): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isBinaryExpression(parent) && EQUALITY.has(parent.operatorToken.kind)) ||
+    (ts.isCaseClause(parent) && parent.expression === node) ||
+    (ts.isPropertyAssignment(parent) && parent.name === node)
+  );
+}
+
+/**
+ * Literal nodes of a file by value; with branched, only those the code branches on.
+ */
+function literalNodes(path: string, text: string | null, branched: boolean): Map<string, ts.Node[]> {
+  const nodes = new Map<string, ts.Node[]>();
+  if (text === null || !CODE_FILE.test(path)) {
+    return nodes;
+  }
+  const visit = (node: ts.Node) => {
+    const value = literalValue(node);
+    if (value !== undefined && (!branched || isBranchedOn(node))) {
+      nodes.set(value, [...(nodes.get(value) ?? []), node]);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(parse(path, text));
+  return nodes;
+}
+
+function findSpecialCases(changes: FileChange[], reference: FileChange[], tests: Map<string, string>): SpecialCase[] {
+  const testValues = new Set([...tests].flatMap(([path, text]) => [...literalNodes(path, text, false).keys()]));
+  const referenceValues = new Set(reference.flatMap(c => [...literalNodes(c.path, c.after, true).keys()]));
+  const cases: SpecialCase[] = [];
+
+  for (const change of changes) {
+    // Tests are full of test literals; special-casing happens in the code under test
+    if (!CODE_FILE.test(change.path) || change.path.startsWith("test/")) {
+      continue;
+    }
+    const before = literalNodes(change.path, change.before, true);
+    for (const [value, nodes] of literalNodes(change.path, change.after, true)) {
+      if (!testValues.has(value) || referenceValues.has(value) || nodes.length <= (before.get(value)?.length ?? 0)) {
+        continue;
+      }
+      for (const node of nodes) {
+        const file = node.getSourceFile();
+        const line = file.getLineAndCharacterOfPosition(node.getStart(file)).line + 1;
+        cases.push({ path: change.path, line, literal: ts.isNumericLiteral(node) ? value : JSON.stringify(value) });
+      }
+    }
+  }
+  return cases;
+}
+
+/**
+ * Measure a patch, given as the files it changed, against the reference fix.
+ */
+export function measurePatch(changes: FileChange[], reference: FileChange[], tests: Map<string, string>): PatchQuality {
+  return {
+    ...changeSize(changes),
+    linesOutsideFix: countOutsideFix(changes, reference),
+    astSimilarity: astSimilarity(changes, reference),
+    reference: changeSize(reference),
+    specialCases: findSpecialCases(changes, reference, tests),
+  };
+}
+
+/**
+ * Measure a patch applied in sandbox, a copy of taskDir, or undefined for
+ * tasks without a reference solution.
+ */
+export function measureTaskPatch(taskDir: string, sandbox: string, files: FileDiff[], strategy: Strategy): PatchQuality | undefined {
+  if (!existsSync(join(taskDir, "solution"))) {
+    return undefined;
+  }
+  const changes = files.map(file => ({
+    path: (file.newPath ?? file.oldPath)!,
+    before: file.oldPath ? readOrNull(join(taskDir, file.oldPath)) : null,
+    after: file.newPath ? readOrNull(join(sandbox, file.newPath)) : null,
+  }));
+  return measurePatch(changes, readReferenceFix(taskDir, strategy), readTestSources(taskDir));
+}
+
+export function formatQuality(quality: PatchQuality): string {
+  const { reference } = quality;
+  return (
+    `+${quality.linesAdded} -${quality.linesRemoved} in ${quality.filesTouched} file(s) ` +
+    `(reference +${reference.linesAdded} -${reference.linesRemoved} in ${reference.filesTouched}), ` +
+    `${quality.linesOutsideFix} line(s) outside the fix, AST similarity ${formatScore(quality.astSimilarity)}`
+  );
+}
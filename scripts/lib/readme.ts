@@ -0,0 +1,91 @@
+/**
+ * Render the README's category and difficulty tables from task manifests.
+ *
+ * The tables live between <!-- name:start --> and <!-- name:end --> markers
+ * so the surrounding prose can still be edited by hand.
+ */
+
+import type { Difficulty, TaskManifest } from "./manifest";
+
+const DIFFICULTY_DESCRIPTIONS: Record<Difficulty, string> = {
+  easy: "Single-line fixes, obvious bugs",
+  medium: "Multiple changes, API understanding",
+  hard: "Complex patterns, security issues",
+};
+
+function taskNumber(manifest: TaskManifest): number {
+  return Number(manifest.id.slice("task-".length, "task-".length + 3));
+}
+
+/**
+ * Format task numbers as compact ranges, e.g. "001-010, 041-045".
+ */
+function formatRanges(numbers: number[]): string {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  const pad = (n: number) => String(n).padStart(3, "0");
+
+  let start = sorted[0]!;
+  let prev = start;
+  for (const n of [...sorted.slice(1), Infinity]) {
+    if (n === prev + 1) {
+      prev = n;
+      continue;
+    }
+    ranges.push(start === prev ? pad(start) : `${pad(start)}-${pad(prev)}`);
+    start = prev = n;
+  }
+
+  return ranges.join(", ");
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+export function renderCategoryTable(manifests: TaskManifest[]): string {
+  const byCategory = new Map<string, TaskManifest[]>();
+  for (const m of [...manifests].sort((a, b) => taskNumber(a) - taskNumber(b))) {
+    byCategory.set(m.category, [...(byCategory.get(m.category) ?? []), m]);
+  }
+
+  const lines = ["| Category | Tasks | APIs Covered |", "|----------|-------|--------------|"];
+  for (const [category, tasks] of byCategory) {
+    const apis = [...new Set(tasks.flatMap(t => t.apis))].map(a => `\`${a}\``).join(", ");
+    lines.push(`| ${category} | ${formatRanges(tasks.map(taskNumber))} | ${apis} |`);
+  }
+  return lines.join("\n");
+}
+
+export function renderDifficultyTable(manifests: TaskManifest[]): string {
+  const lines = ["| Level | Tasks | Description |", "|-------|-------|-------------|"];
+  for (const [level, description] of Object.entries(DIFFICULTY_DESCRIPTIONS)) {
+    const tasks = manifests.filter(m => m.difficulty === level);
+    if (tasks.length > 0) {
+      lines.push(`| ${capitalize(level)} | ${formatRanges(tasks.map(taskNumber))} | ${description} |`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function replaceSection(readme: string, name: string, content: string): string {
+  const start = `<!-- ${name}:start -->`;
+  const end = `<!-- ${name}:end -->`;
+  const from = readme.indexOf(start);
+  const to = readme.indexOf(end);
+
+  if (from === -1 || to === -1 || to < from) {
+    throw new Error(`README.md is missing the ${start} / ${end} markers`);
+  }
+
+  return `${readme.slice(0, from + start.length)}\n${content}\n${readme.slice(to)}`;
+}
+
+/**
+ * Return the README with its generated tables replaced.
+ */
+export function renderReadme(readme: string, manifests: TaskManifest[]): string {
+  let result = replaceSection(readme, "categories", renderCategoryTable(manifests));
+  result = replaceSection(result, "difficulty", renderDifficultyTable(manifests));
+  return result;
+}
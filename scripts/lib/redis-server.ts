@@ -0,0 +1,397 @@
+/**
+ * In-process Redis stand-in for tasks that declare the "redis" service.
+ *
+ * Speaks RESP2 and RESP3 (Bun.RedisClient opens with HELLO 3) over
+ * Bun.listen and implements the commands the tasks use: GET, SET (EX, PX,
+ * NX, XX, KEEPTTL), SETNX, DEL, EXISTS, KEYS, EXPIRE, PEXPIRE, TTL, PTTL,
+ * PUBLISH, SUBSCRIBE and UNSUBSCRIBE, plus the connection housekeeping
+ * commands clients send (HELLO, PING, SELECT, CLIENT, QUIT).
+ *
+ * Keys expire on time: an expired key is gone for every command, exactly as
+ * if Redis had evicted it, and TTL/PTTL follow Redis' -2/-1 conventions.
+ * Each server holds its own keyspace, so concurrent tasks never share data.
+ */
+
+import type { Socket, TCPSocketListener } from "bun";
+
+export interface RedisServer {
+  port: number;
+  /** redis:// URL to hand to clients, e.g. via REDIS_URL */
+  url: string;
+  stop(): void;
+}
+
+interface Entry {
+  value: string;
+  /** Expiry as a Date.now() timestamp, undefined for persistent keys */
+  expiresAt?: number;
+}
+
+interface Connection {
+  buffer: Buffer;
+  protocol: 2 | 3;
+  channels: Set<string>;
+  closing: boolean;
+}
+
+type Reply =
+  | { type: "simple"; value: string }
+  | { type: "error"; value: string }
+  | { type: "integer"; value: number }
+  | { type: "bulk"; value: string }
+  | { type: "null" }
+  | { type: "array"; items: Reply[] }
+  | { type: "map"; entries: [Reply, Reply][] }
+  | { type: "push"; items: Reply[] };
+
+const OK: Reply = { type: "simple", value: "OK" };
+const NULL: Reply = { type: "null" };
+const bulk = (value: string): Reply => ({ type: "bulk", value });
+const integer = (value: number): Reply => ({ type: "integer", value });
+const error = (value: string): Reply => ({ type: "error", value });
+
+class CommandError extends Error {}
+
+function encode(reply: Reply, protocol: 2 | 3): string {
+  switch (reply.type) {
+    case "simple":
+      return `+${reply.value}\r\n`;
+    case "error":
+      return `-${reply.value}\r\n`;
+    case "integer":
+      return `:${reply.value}\r\n`;
+    case "bulk":
+      return `$${Buffer.byteLength(reply.value)}\r\n${reply.value}\r\n`;
+    case "null":
+      return protocol === 3 ? "_\r\n" : "$-1\r\n";
+    case "array":
+      return `*${reply.items.length}\r\n${reply.items.map(r => encode(r, protocol)).join("")}`;
+    case "map":
+      // RESP2 has no maps, they are sent as flat key/value arrays
+      return `${protocol === 3 ? "%" : "*"}${reply.entries.length * (protocol === 3 ? 1 : 2)}\r\n${reply.entries
+        .map(([k, v]) => encode(k, protocol) + encode(v, protocol))
+        .join("")}`;
+    case "push":
+      return `${protocol === 3 ? ">" : "*"}${reply.items.length}\r\n${reply.items.map(r => encode(r, protocol)).join("")}`;
+  }
+}
+
+/**
+ * Take one complete command off the front of the buffer.
+ * Returns undefined if the buffer does not hold a whole command yet.
+ */
+function parseCommand(buffer: Buffer): { args: string[]; rest: Buffer } | undefined {
+  const lineEnd = buffer.indexOf("\r\n");
+  if (lineEnd === -1) return undefined;
+
+  // Inline commands, as typed into telnet or nc
+  if (buffer[0] !== 0x2a /* * */) {
+    const args = buffer.subarray(0, lineEnd).toString().trim().split(/\s+/).filter(Boolean);
+    return { args, rest: buffer.subarray(lineEnd + 2) };
+  }
+
+  const count = Number(buffer.subarray(1, lineEnd).toString());
+  const args: string[] = [];
+  let offset = lineEnd + 2;
+
+  for (let i = 0; i < count; i++) {
+    const headerEnd = buffer.indexOf("\r\n", offset);
+    if (headerEnd === -1) return undefined;
+    if (buffer[offset] !== 0x24 /* $ */) {
+      throw new CommandError("Protocol error: expected '$'");
+    }
+    const length = Number(buffer.subarray(offset + 1, headerEnd).toString());
+    const start = headerEnd + 2;
+    if (buffer.length < start + length + 2) return undefined;
+    args.push(buffer.subarray(start, start + length).toString());
+    offset = start + length + 2;
+  }
+
+  return { args, rest: buffer.subarray(offset) };
+}
+
+/**
+ * Translate a Redis glob pattern (as used by KEYS) into a RegExp.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]!;
+    if (c === "*") source += ".*";
+    else if (c === "?") source += ".";
+    else if (c === "\\" && i + 1 < pattern.length) source += `\\${pattern[++i]}`;
+    else if (c === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+        source += `[${body.startsWith("^") ? `^${body.slice(1)}` : body}]`;
+        i = end;
+      }
+    } else source += c.replace(/[.+^${}()|\]\\/]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+function parseInteger(value: string | undefined): number {
+  if (value === undefined || !/^-?\d+$/.test(value)) {
+    throw new CommandError("ERR value is not an integer or out of range");
+  }
+  return Number(value);
+}
+
+function wrongArgs(command: string): CommandError {
+  return new CommandError(`ERR wrong number of arguments for '${command.toLowerCase()}' command`);
+}
+
+/**
+ * Start a Redis stand-in on 127.0.0.1. Port 0 picks a free port.
+ */
+export function startRedisServer(port = 0): RedisServer {
+  const keys = new Map<string, Entry>();
+  const subscribers = new Map<string, Set<Socket<Connection>>>();
+
+  function lookup(key: string): Entry | undefined {
+    const entry = keys.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      keys.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  function expire(key: string, ttlMillis: number, condition?: string): Reply {
+    const entry = lookup(key);
+    if (!entry) return integer(0);
+
+    const expiresAt = Date.now() + ttlMillis;
+    const current = entry.expiresAt ?? Infinity;
+    const allowed =
+      condition === undefined ||
+      (condition === "NX" && entry.expiresAt === undefined) ||
+      (condition === "XX" && entry.expiresAt !== undefined) ||
+      (condition === "GT" && expiresAt > current) ||
+      (condition === "LT" && expiresAt < current);
+    if (!allowed) return integer(0);
+
+    if (ttlMillis <= 0) keys.delete(key);
+    else entry.expiresAt = expiresAt;
+    return integer(1);
+  }
+
+  function ttl(key: string, unit: number): Reply {
+    const entry = lookup(key);
+    if (!entry) return integer(-2);
+    if (entry.expiresAt === undefined) return integer(-1);
+    return integer(Math.round((entry.expiresAt - Date.now()) / unit));
+  }
+
+  function set(args: string[]): Reply {
+    const [key, value, ...options] = args;
+    if (key === undefined || value === undefined) throw wrongArgs("SET");
+
+    let ttlMillis: number | undefined;
+    let condition: "NX" | "XX" | undefined;
+    let keepTtl = false;
+    let get = false;
+
+    for (let i = 0; i < options.length; i++) {
+      const option = options[i]!.toUpperCase();
+      if (option === "EX" || option === "PX") {
+        const amount = parseInteger(options[++i]);
+        if (amount <= 0) throw new CommandError("ERR invalid expire time in 'set' command");
+        ttlMillis = option === "EX" ? amount * 1000 : amount;
+      } else if (option === "NX" || option === "XX") {
+        condition = option;
+      } else if (option === "KEEPTTL") {
+        keepTtl = true;
+      } else if (option === "GET") {
+        get = true;
+      } else {
+        throw new CommandError("ERR syntax error");
+      }
+    }
+
+    const existing = lookup(key);
+    const previous = get ? (existing ? bulk(existing.value) : NULL) : OK;
+    if ((condition === "NX" && existing) || (condition === "XX" && !existing)) {
+      return get ? previous : NULL;
+    }
+
+    const expiresAt = ttlMillis !== undefined ? Date.now() + ttlMillis : keepTtl ? existing?.expiresAt : undefined;
+    keys.set(key, { value, expiresAt });
+    return previous;
+  }
+
+  function subscribe(socket: Socket<Connection>, channels: string[]): Reply[] {
+    return channels.map(channel => {
+      socket.data.channels.add(channel);
+      subscribers.set(channel, (subscribers.get(channel) ?? new Set()).add(socket));
+      return { type: "push", items: [bulk("subscribe"), bulk(channel), integer(socket.data.channels.size)] };
+    });
+  }
+
+  function unsubscribe(socket: Socket<Connection>, channels: string[]): Reply[] {
+    const targets = channels.length > 0 ? channels : [...socket.data.channels];
+    if (targets.length === 0) {
+      return [{ type: "push", items: [bulk("unsubscribe"), NULL, integer(0)] }];
+    }
+    return targets.map(channel => {
+      socket.data.channels.delete(channel);
+      subscribers.get(channel)?.delete(socket);
+      if (subscribers.get(channel)?.size === 0) subscribers.delete(channel);
+      return { type: "push", items: [bulk("unsubscribe"), bulk(channel), integer(socket.data.channels.size)] };
+    });
+  }
+
+  function publish(channel: string, message: string): Reply {
+    const receivers = [...(subscribers.get(channel) ?? [])];
+    for (const receiver of receivers) {
+      const push: Reply = { type: "push", items: [bulk("message"), bulk(channel), bulk(message)] };
+      receiver.write(encode(push, receiver.data.protocol));
+    }
+    return integer(receivers.length);
+  }
+
+  function execute(socket: Socket<Connection>, args: string[]): Reply[] {
+    const [name = "", ...rest] = args;
+    const command = name.toUpperCase();
+    const arity = (min: number, max = min) => {
+      if (rest.length < min || rest.length > max) throw wrongArgs(command);
+    };
+
+    switch (command) {
+      case "HELLO": {
+        if (rest.length > 0) {
+          const version = parseInteger(rest[0]);
+          if (version !== 2 && version !== 3) {
+            return [error("NOPROTO unsupported protocol version")];
+          }
+          socket.data.protocol = version;
+        }
+        return [
+          {
+            type: "map",
+            entries: [
+              [bulk("server"), bulk("redis")],
+              [bulk("version"), bulk("7.2.0")],
+              [bulk("proto"), integer(socket.data.protocol)],
+              [bulk("id"), integer(1)],
+              [bulk("mode"), bulk("standalone")],
+              [bulk("role"), bulk("master")],
+              [bulk("modules"), { type: "array", items: [] }],
+            ],
+          },
+        ];
+      }
+      case "PING":
+        arity(0, 1);
+        return [rest[0] !== undefined ? bulk(rest[0]) : { type: "simple", value: "PONG" }];
+      case "SELECT":
+      case "CLIENT":
+        return [OK];
+      case "QUIT":
+        socket.data.closing = true;
+        return [OK];
+      case "GET": {
+        arity(1);
+        const entry = lookup(rest[0]!);
+        return [entry ? bulk(entry.value) : NULL];
+      }
+      case "SET":
+        return [set(rest)];
+      case "SETNX":
+        arity(2);
+        if (lookup(rest[0]!)) return [integer(0)];
+        keys.set(rest[0]!, { value: rest[1]! });
+        return [integer(1)];
+      case "DEL":
+        if (rest.length === 0) throw wrongArgs(command);
+        return [integer(rest.filter(key => lookup(key) && keys.delete(key)).length)];
+      case "EXISTS":
+        if (rest.length === 0) throw wrongArgs(command);
+        return [integer(rest.filter(key => lookup(key)).length)];
+      case "KEYS": {
+        arity(1);
+        const pattern = globToRegExp(rest[0]!);
+        const matches = [...keys.keys()].filter(key => lookup(key) && pattern.test(key));
+        return [{ type: "array", items: matches.map(bulk) }];
+      }
+      case "EXPIRE":
+      case "PEXPIRE": {
+        arity(2, 3);
+        const amount = parseInteger(rest[1]);
+        const condition = rest[2]?.toUpperCase();
+        if (condition !== undefined && !["NX", "XX", "GT", "LT"].includes(condition)) {
+          throw new CommandError(`ERR Unsupported option ${rest[2]}`);
+        }
+        return [expire(rest[0]!, command === "EXPIRE" ? amount * 1000 : amount, condition)];
+      }
+      case "TTL":
+      case "PTTL":
+        arity(1);
+        return [ttl(rest[0]!, command === "TTL" ? 1000 : 1)];
+      case "PUBLISH":
+        arity(2);
+        return [publish(rest[0]!, rest[1]!)];
+      case "SUBSCRIBE":
+        if (rest.length === 0) throw wrongArgs(command);
+        return subscribe(socket, rest);
+      case "UNSUBSCRIBE":
+        return unsubscribe(socket, rest);
+      default:
+        return [error(`ERR unknown command '${name}'`)];
+    }
+  }
+
+  const listener: TCPSocketListener<Connection> = Bun.listen<Connection>({
+    hostname: "127.0.0.1",
+    port,
+    socket: {
+      open(socket) {
+        socket.data = { buffer: Buffer.alloc(0), protocol: 2, channels: new Set(), closing: false };
+      },
+      data(socket, chunk) {
+        const connection = socket.data;
+        connection.buffer = Buffer.concat([connection.buffer, chunk]);
+
+        let out = "";
+        while (!connection.closing) {
+          let parsed;
+          try {
+            parsed = parseCommand(connection.buffer);
+          } catch (e) {
+            out += encode(error(`ERR ${(e as Error).message}`), connection.protocol);
+            connection.closing = true;
+            break;
+          }
+          if (!parsed) break;
+          connection.buffer = parsed.rest;
+          if (parsed.args.length === 0) continue;
+
+          try {
+            out += execute(socket, parsed.args)
+              .map(reply => encode(reply, connection.protocol))
+              .join("");
+          } catch (e) {
+            if (!(e instanceof CommandError)) throw e;
+            out += encode(error(e.message), connection.protocol);
+          }
+        }
+
+        if (out) socket.write(out);
+        if (connection.closing) socket.end();
+      },
+      close(socket) {
+        unsubscribe(socket, []);
+      },
+    },
+  });
+
+  return {
+    port: listener.port,
+    url: `redis://127.0.0.1:${listener.port}`,
+    stop: () => listener.stop(true),
+  };
+}
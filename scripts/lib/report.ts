@@ -0,0 +1,220 @@
+/**
+ * Machine-readable harness reports.
+ *
+ * test-solutions.ts and evaluate.ts describe a run as a RunReport, which is
+ * written as JSON (--json <file>) and/or JUnit XML (--junit <file>) for
+ * dashboards. The JSON form is the canonical format other tools consume.
+ * Reports carry partial-credit scores per task and per group (see scoring.ts),
+ * and pass@k when several samples per task were evaluated (see passk.ts).
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { escapeXml, type TestCaseResult } from "./junit";
+import type { Difficulty, TaskManifest } from "./manifest";
+import type { TestRunResult } from "./tasks";
+import { scoreTests, scoreRun, splitScore, type TaskScore, type RunScores, type SplitScore } from "./scoring";
+import type { TestListResult } from "./baseline";
+import type { RejectedHunk } from "./tamper";
+import { hasLeaks, type LeakReport } from "./leaks";
+import type { PassAtKReport } from "./passk";
+import type { PatchQuality } from "./quality";
+import type { FlakyMode } from "./flaky";
+
+export type TaskOutcome = "pass" | "fail" | "error" | "timeout" | "skipped";
+
+export interface TaskReport {
+  task: string;
+  /** Which candidate patch was evaluated, in runs with several samples per task */
+  sample?: string;
+  category?: string;
+  difficulty?: Difficulty;
+  outcome: TaskOutcome;
+  /** Wall-clock time of the test run in milliseconds */
+  duration: number;
+  tests: TestCaseResult[];
+  score: TaskScore;
+  /** Scores of the visible test/ and held-out hidden/ tests, for tasks with hidden tests */
+  split?: SplitScore;
+  /** Whether the model patch applied; evaluation runs only */
+  applied?: boolean;
+  /** The model patch as applied, after protected hunks were stripped; evaluation runs only */
+  patch?: string;
+  /** How the applied patch compares with the reference solution (see quality.ts); evaluation runs only */
+  quality?: PatchQuality;
+  /** Hunks stripped from the model patch for touching protected files; evaluation runs only */
+  rejectedHunks?: RejectedHunk[];
+  /** Applied hunks that delete tests of a test-focused task; evaluation runs only */
+  flaggedHunks?: RejectedHunk[];
+  /** Tests recorded as flaky (see flaky.ts) and how they counted; evaluation runs only */
+  flaky?: { mode: FlakyMode; tests: string[] };
+  /** Results of the task's baseline test lists; evaluation runs only */
+  failToPass?: TestListResult;
+  passToPass?: TestListResult;
+  /** Why the task was skipped */
+  skipReason?: string;
+  /** Resources the test run left behind, if any (see leaks.ts) */
+  leaks?: LeakReport;
+  /** Output captured from bun test */
+  stderr?: string;
+  error?: string;
+}
+
+export interface RunReport {
+  kind: "solutions" | "evaluation";
+  /** What produced the code under test: "solution" for solution runs, else the model's name */
+  model?: string;
+  bunVersion: string;
+  startedAt: string;
+  /** Wall-clock time of the whole run in milliseconds */
+  duration: number;
+  summary: Record<TaskOutcome, number> & { total: number };
+  scores: RunScores;
+  /** Only for evaluations of several samples per task (see passk.ts) */
+  passAtK?: PassAtKReport;
+  tasks: TaskReport[];
+}
+
+/**
+ * Describe one task's test run for a report. Test weights, if given, go
+ * into its scores (see scoreTests).
+ */
+export function taskReport(
+  task: string,
+  manifest: TaskManifest | undefined,
+  result: TestRunResult,
+  weights?: Map<string, number>,
+): TaskReport {
+  let outcome: TaskOutcome;
+  if (result.skipped) outcome = "skipped";
+  else if (result.timedOut) outcome = "timeout";
+  else if (result.error) outcome = "error";
+  else outcome = result.passed ? "pass" : "fail";
+  const tests = result.tests ?? [];
+
+  return {
+    task,
+    category: manifest?.category,
+    difficulty: manifest?.difficulty,
+    outcome,
+    duration: Math.round(result.duration ?? 0),
+    tests,
+    score: scoreTests(tests, weights),
+    split: splitScore(tests, weights),
+    skipReason: result.skipReason,
+    leaks: result.leaks && hasLeaks(result.leaks) ? result.leaks : undefined,
+    stderr: result.output,
+    error: result.error,
+  };
+}
+
+export function buildRunReport(kind: RunReport["kind"], startedAt: Date, tasks: TaskReport[], model?: string): RunReport {
+  const summary = { total: tasks.length, pass: 0, fail: 0, error: 0, timeout: 0, skipped: 0 };
+  for (const t of tasks) {
+    summary[t.outcome]++;
+  }
+
+  return {
+    kind,
+    model,
+    bunVersion: Bun.version,
+    startedAt: startedAt.toISOString(),
+    duration: Date.now() - startedAt.getTime(),
+    summary,
+    scores: scoreRun(tasks),
+    tasks: [...tasks].sort((a, b) => a.task.localeCompare(b.task) || (a.sample ?? "").localeCompare(b.sample ?? "")),
+  };
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * Render a run as JUnit XML: one <testsuite> per task, one <testcase> per test.
+ * Tasks that produced no test results (crashes, patches that did not apply)
+ * get a single <testcase> carrying the error.
+ */
+export function renderJunitReport(report: RunReport): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const count = (t: TaskReport, status: TestCaseResult["status"]) => t.tests.filter(c => c.status === status).length;
+  const errored = (t: TaskReport) => t.tests.length === 0 && t.outcome !== "pass" && t.outcome !== "skipped";
+
+  const totals = {
+    tests: report.tasks.reduce((n, t) => n + Math.max(t.tests.length, errored(t) ? 1 : 0), 0),
+    failures: report.tasks.reduce((n, t) => n + count(t, "fail"), 0),
+    errors: report.tasks.filter(errored).length,
+    skipped: report.tasks.reduce((n, t) => n + count(t, "skip"), 0),
+  };
+
+  lines.push(
+    `<testsuites name="bun-bench ${report.kind}" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" skipped="${totals.skipped}" time="${seconds(report.duration)}" timestamp="${report.startedAt}">`,
+  );
+
+  for (const t of report.tasks) {
+    const name = escapeXml(t.sample ? `${t.task} [${t.sample}]` : t.task);
+    lines.push(
+      `  <testsuite name="${name}" tests="${Math.max(t.tests.length, errored(t) ? 1 : 0)}" failures="${count(t, "fail")}" errors="${errored(t) ? 1 : 0}" skipped="${count(t, "skip")}" time="${seconds(t.duration)}">`,
+    );
+
+    lines.push(`    <properties>`);
+    lines.push(`      <property name="outcome" value="${t.outcome}" />`);
+    lines.push(`      <property name="score" value="${t.score.score.toFixed(4)}" />`);
+    if (t.split) {
+      lines.push(`      <property name="visibleScore" value="${t.split.visible.score.toFixed(4)}" />`);
+      lines.push(`      <property name="hiddenScore" value="${t.split.hidden.score.toFixed(4)}" />`);
+    }
+    if (t.category) lines.push(`      <property name="category" value="${escapeXml(t.category)}" />`);
+    if (t.difficulty) lines.push(`      <property name="difficulty" value="${t.difficulty}" />`);
+    if (t.rejectedHunks) lines.push(`      <property name="rejectedHunks" value="${t.rejectedHunks.length}" />`);
+    if (t.flaggedHunks) lines.push(`      <property name="flaggedHunks" value="${t.flaggedHunks.length}" />`);
+    if (t.leaks) lines.push(`      <property name="leaks" value="${escapeXml(JSON.stringify(t.leaks))}" />`);
+    if (t.skipReason) lines.push(`      <property name="skipReason" value="${escapeXml(t.skipReason)}" />`);
+    lines.push(`    </properties>`);
+
+    for (const c of t.tests) {
+      const open = `    <testcase classname="${name}" name="${escapeXml(c.name)}" file="${escapeXml(c.file)}" time="${seconds(c.duration)}"`;
+      if (c.status === "pass") {
+        lines.push(`${open} />`);
+      } else if (c.status === "skip") {
+        lines.push(`${open}>`, `      <skipped />`, `    </testcase>`);
+      } else {
+        lines.push(`${open}>`, `      <failure message="${escapeXml(c.message ?? "")}" />`, `    </testcase>`);
+      }
+    }
+
+    if (errored(t)) {
+      const message = t.error ?? (t.applied === false ? "patch did not apply" : "no test results");
+      lines.push(`    <testcase classname="${name}" name="${name}" time="${seconds(t.duration)}">`);
+      lines.push(`      <error message="${escapeXml(message)}" />`);
+      lines.push(`    </testcase>`);
+    }
+
+    if (t.stderr) {
+      lines.push(`    <system-err>${escapeXml(t.stderr, false)}</system-err>`);
+    }
+    lines.push(`  </testsuite>`);
+  }
+
+  lines.push(`</testsuites>`);
+  return lines.join("\n") + "\n";
+}
+
+function writeFile(path: string, content: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content);
+}
+
+/**
+ * Write the report in the requested formats.
+ */
+export function writeReports(report: RunReport, paths: { json?: string; junit?: string }): void {
+  if (paths.json) {
+    writeFile(paths.json, JSON.stringify(report, null, 2) + "\n");
+    console.log(`📄 JSON report written to ${paths.json}`);
+  }
+  if (paths.junit) {
+    writeFile(paths.junit, renderJunitReport(report));
+    console.log(`📄 JUnit report written to ${paths.junit}`);
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * HTTP server over the run history (see history.ts), so CI jobs can upload
+ * their runs and everyone can browse them.
+ *
+ *   GET  /                     dashboard of the latest run of every model
+ *   GET  /tasks/:task.html     a task's page of that dashboard
+ *   GET  /runs                 recorded runs, newest first (?limit=N)
+ *   POST /runs                 record a RunReport, as written by --json
+ *   GET  /runs/:id             a run's full RunReport
+ *   GET  /leaderboard          latest run of every model by score (?category=NAME)
+ *   GET  /tasks/:task/history  a task's results in every run
+ *
+ * The API speaks JSON; errors are { "error": message } with an error status.
+ * Runs are given by id, or as "latest" and "previous" like in compare.ts.
+ * With a token, uploads must send it as "Authorization: Bearer <token>".
+ */
+
+import type { Database } from "bun:sqlite";
+import { latestRuns, renderIndex, renderTaskPage } from "./dashboard";
+import { findRun, leaderboard, listRuns, loadReport, recordRun, taskHistory } from "./history";
+import type { TestStatus } from "./junit";
+import { DIFFICULTIES, type Difficulty } from "./manifest";
+import type { RunReport, TaskOutcome } from "./report";
+import { isTaskName } from "./tasks";
+
+export interface ResultsServerOptions {
+  port?: number;
+  /** Interface to listen on; loopback only by default */
+  hostname?: string;
+  /** Token uploads must carry; uploads are open without one */
+  token?: string;
+}
+
+export interface ResultsServer {
+  port: number;
+  url: string;
+  stop(): void;
+}
+
+const KINDS: RunReport["kind"][] = ["solutions", "evaluation"];
+const OUTCOMES: TaskOutcome[] = ["pass", "fail", "error", "timeout", "skipped"];
+const STATUSES: TestStatus[] = ["pass", "fail", "skip"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isDuration(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isFraction(value: unknown): boolean {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+/** Every field of value that is given must be a string */
+function optionalStrings(value: Record<string, unknown>, fields: string[]): string[] {
+  return fields.filter(f => value[f] !== undefined && typeof value[f] !== "string").map(f => `${f} must be a string`);
+}
+
+function isTaskScore(value: unknown): boolean {
+  return isObject(value) && isCount(value.passed) && isCount(value.failed) && isCount(value.skipped) && isFraction(value.score);
+}
+
+function isGroupScore(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    ["tasks", "resolved", "testsPassed", "testsTotal"].every(f => isCount(value[f])) &&
+    isFraction(value.score)
+  );
+}
+
+function isChangeSize(value: unknown): value is Record<string, unknown> {
+  return isObject(value) && ["filesTouched", "linesAdded", "linesRemoved"].every(f => isCount(value[f]));
+}
+
+function isHunkList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(h => isObject(h) && ["path", "hunk", "reason"].every(f => typeof h[f] === "string"));
+}
+
+function isTestListResult(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    isCount(value.passed) &&
+    isCount(value.total) &&
+    Array.isArray(value.failing) &&
+    value.failing.every(id => typeof id === "string")
+  );
+}
+
+function validateScores(scores: unknown): string[] {
+  if (!isObject(scores)) {
+    return ["scores must be an object"];
+  }
+  const errors: string[] = [];
+  if (!isGroupScore(scores.overall)) {
+    errors.push("scores.overall must be a group score");
+  }
+  for (const field of ["byCategory", "byDifficulty"]) {
+    const groups = scores[field];
+    if (!isObject(groups) || !Object.values(groups).every(isGroupScore)) {
+      errors.push(`scores.${field} must map names to group scores`);
+    }
+  }
+  return errors;
+}
+
+function validateTest(test: unknown): boolean {
+  return (
+    isObject(test) &&
+    typeof test.name === "string" &&
+    typeof test.file === "string" &&
+    STATUSES.includes(test.status as TestStatus) &&
+    isDuration(test.duration) &&
+    (test.message === undefined || typeof test.message === "string")
+  );
+}
+
+function validateQuality(quality: unknown): boolean {
+  return (
+    isChangeSize(quality) &&
+    isCount(quality.linesOutsideFix) &&
+    isFraction(quality.astSimilarity) &&
+    isChangeSize(quality.reference) &&
+    Array.isArray(quality.specialCases) &&
+    quality.specialCases.every(
+      c => isObject(c) && typeof c.path === "string" && isCount(c.line) && typeof c.literal === "string",
+    )
+  );
+}
+
+function validateTask(t: Record<string, unknown>): string[] {
+  const errors = optionalStrings(t, ["sample", "category", "patch", "skipReason", "stderr", "error"]);
+  if (!OUTCOMES.includes(t.outcome as TaskOutcome)) {
+    errors.push(`outcome must be one of: ${OUTCOMES.join(", ")}`);
+  }
+  if (t.difficulty !== undefined && !DIFFICULTIES.includes(t.difficulty as Difficulty)) {
+    errors.push(`difficulty must be one of: ${DIFFICULTIES.join(", ")}`);
+  }
+  if (!isDuration(t.duration)) {
+    errors.push("duration must be a non-negative number");
+  }
+  if (!Array.isArray(t.tests) || !t.tests.every(validateTest)) {
+    errors.push("tests must be an array of test results with name, file, status and duration");
+  }
+  if (!isTaskScore(t.score)) {
+    errors.push("score must be a task score");
+  }
+  if (t.split !== undefined && !(isObject(t.split) && isTaskScore(t.split.visible) && isTaskScore(t.split.hidden))) {
+    errors.push("split must have visible and hidden task scores");
+  }
+  if (t.applied !== undefined && typeof t.applied !== "boolean") {
+    errors.push("applied must be a boolean");
+  }
+  for (const field of ["failToPass", "passToPass"]) {
+    if (t[field] !== undefined && !isTestListResult(t[field])) errors.push(`${field} must be a test list result`);
+  }
+  if (t.quality !== undefined && !validateQuality(t.quality)) {
+    errors.push("quality must be a patch quality report");
+  }
+  for (const field of ["rejectedHunks", "flaggedHunks"]) {
+    if (t[field] !== undefined && !isHunkList(t[field])) errors.push(`${field} must be an array of hunks`);
+  }
+  return errors;
+}
+
+/**
+ * Check that an uploaded body has the fields of a RunReport that the
+ * history and the dashboard read, and return what is wrong with it.
+ */
+export function validateRunReport(body: unknown): string[] {
+  if (!isObject(body)) {
+    return ["report must be a JSON object"];
+  }
+
+  const errors: string[] = [];
+  if (!KINDS.includes(body.kind as RunReport["kind"])) {
+    errors.push(`kind must be one of: ${KINDS.join(", ")}`);
+  }
+  for (const field of ["bunVersion", "startedAt"]) {
+    if (typeof body[field] !== "string") errors.push(`${field} must be a string`);
+  }
+  errors.push(...optionalStrings(body, ["model"]));
+  if (!isDuration(body.duration)) {
+    errors.push("duration must be a non-negative number");
+  }
+  errors.push(...validateScores(body.scores));
+  if (!Array.isArray(body.tasks)) {
+    errors.push("tasks must be an array");
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  for (const [i, t] of body.tasks.entries()) {
+    if (!isObject(t) || typeof t.task !== "string" || !isTaskName(t.task)) {
+      errors.push(`tasks[${i}].task must be a task directory name like task-001-content-length`);
+      continue;
+    }
+    errors.push(...validateTask(t).map(e => `${t.task}: ${e}`));
+
+    const key = JSON.stringify([t.task, t.sample ?? ""]);
+    if (seen.has(key)) {
+      errors.push(t.sample === undefined ? `${t.task}: appears more than once` : `${t.task}: sample ${t.sample} appears more than once`);
+    }
+    seen.add(key);
+  }
+  return errors;
+}
+
+function error(status: number, message: string): Response {
+  return Response.json({ error: message }, { status });
+}
+
+function html(body: string): Response {
+  return new Response(body, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
+async function postRun(db: Database, req: Request, token: string | undefined): Promise<Response> {
+  if (token !== undefined && req.headers.get("Authorization") !== `Bearer ${token}`) {
+    return error(401, "uploads need the server's token as Authorization: Bearer <token>");
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return error(400, "body is not valid JSON");
+  }
+
+  const errors = validateRunReport(body);
+  if (errors.length > 0) {
+    return error(400, `invalid run report: ${errors.join("; ")}`);
+  }
+
+  const id = recordRun(db, body as RunReport);
+  return Response.json({ id, url: `/runs/${id}` }, { status: 201, headers: { Location: `/runs/${id}` } });
+}
+
+export function startResultsServer(db: Database, options: ResultsServerOptions = {}): ResultsServer {
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    hostname: options.hostname ?? "127.0.0.1",
+    routes: {
+      "/": {
+        GET: () => html(renderIndex(latestRuns(db))),
+      },
+      // Where the task pages link back to
+      "/index.html": {
+        GET: () => html(renderIndex(latestRuns(db))),
+      },
+      "/runs": {
+        GET: req => {
+          const limit = Number(new URL(req.url).searchParams.get("limit") ?? 50);
+          if (!Number.isInteger(limit) || limit < 1) {
+            return error(400, "limit must be a positive integer");
+          }
+          return Response.json(listRuns(db, limit));
+        },
+        POST: req => postRun(db, req, options.token),
+      },
+      "/runs/:id": {
+        GET: req => {
+          const run = findRun(db, req.params.id);
+          return run ? Response.json(loadReport(db, run.id)) : error(404, `unknown run: ${req.params.id}`);
+        },
+      },
+      "/leaderboard": {
+        GET: req => {
+          const category = new URL(req.url).searchParams.get("category") ?? undefined;
+          return Response.json(leaderboard(db, category));
+        },
+      },
+      "/tasks/:page": {
+        GET: req => {
+          const task = req.params.page.replace(/\.html$/, "");
+          const runs = latestRuns(db);
+          if (!runs.some(run => run.report.tasks.some(t => t.task === task))) {
+            return error(404, `unknown task: ${task}`);
+          }
+          return html(renderTaskPage(task, runs));
+        },
+      },
+      "/tasks/:task/history": {
+        GET: req => {
+          const history = taskHistory(db, req.params.task);
+          return history.length > 0 ? Response.json(history) : error(404, `no recorded results for ${req.params.task}`);
+        },
+      },
+    },
+    fetch: req => error(404, `not found: ${req.method} ${new URL(req.url).pathname}`),
+    // The details stay in the server's log, clients learn nothing about its internals
+    error: err => {
+      console.error(`Error handling request: ${err.stack ?? err}`);
+      return error(500, "internal error");
+    },
+  });
+
+  return {
+    port: server.port!,
+    url: server.url.href,
+    stop: () => server.stop(true),
+  };
+}
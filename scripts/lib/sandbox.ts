@@ -0,0 +1,56 @@
+/**
+ * Throwaway copies of task directories.
+ *
+ * Anything that needs to modify a task (applying a patch, swapping in the
+ * solution) works on a sandbox so the checked-in tree is never touched.
+ *
+ * A sandbox mirrors the repository layout: the task is copied to
+ * <tmp>/tasks/<task-name> and the root's node_modules, package.json,
+ * bun.lock and tsconfig.json are symlinked into <tmp>, so module and type
+ * resolution behave exactly as they do in the repository.
+ *
+ * Sandboxes for model patches leave out what the patched code must not be
+ * able to read: the reference solution and the harness metadata.
+ */
+
+import { cpSync, existsSync, mkdirSync, mkdtempSync, rmSync, symlinkSync } from "fs";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+
+const repoRoot = join(import.meta.dir, "..", "..");
+
+const ROOT_ENTRIES = ["node_modules", "package.json", "bun.lock", "tsconfig.json"];
+
+const REFERENCE_ENTRIES = ["solution", "task.json", "baseline.json", "flaky.json", "mutation.json"];
+
+/**
+ * Copy taskDir into a fresh temporary directory and return the copy's path.
+ * With withoutReference, solution/ and the harness metadata are left out.
+ */
+export function createSandbox(taskDir: string, { withoutReference = false } = {}): string {
+  const root = mkdtempSync(join(tmpdir(), "bun-bench-"));
+
+  for (const entry of ROOT_ENTRIES) {
+    if (existsSync(join(repoRoot, entry))) {
+      symlinkSync(join(repoRoot, entry), join(root, entry));
+    }
+  }
+
+  const dir = join(root, "tasks", basename(taskDir));
+  mkdirSync(join(root, "tasks"));
+  cpSync(taskDir, dir, { recursive: true });
+  if (withoutReference) {
+    for (const entry of REFERENCE_ENTRIES) {
+      rmSync(join(dir, entry), { recursive: true, force: true });
+    }
+  }
+  return dir;
+}
+
+/**
+ * Remove a sandbox created by createSandbox().
+ */
+export function removeSandbox(dir: string): void {
+  // Symlinked entries are removed as links, their targets are left alone
+  rmSync(join(dir, "..", ".."), { recursive: true, force: true });
+}
@@ -0,0 +1,165 @@
+/**
+ * Partial-credit scoring from individual test results.
+ *
+ * A task's score is the fraction of its non-skipped tests that pass, so a
+ * patch fixing 9 of 10 tests scores 0.9 instead of counting as a plain
+ * failure. Groups (categories, difficulty levels, the whole run) score the
+ * mean of their task scores, so every task weighs the same regardless of
+ * how many tests it has.
+ *
+ * Tasks with held-out tests (hidden/, see tasks.ts) are also scored on
+ * their visible and hidden tests apart. A fix that does much better on the
+ * visible tests than on the hidden ones was fitted to the assertions.
+ */
+
+import { testId } from "./baseline";
+import type { TestCaseResult } from "./junit";
+import { DIFFICULTIES } from "./manifest";
+import type { TaskReport } from "./report";
+
+export interface TaskScore {
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** passed / (passed + failed), weighted if some tests weigh less; 0 when no test ran */
+  score: number;
+}
+
+export interface GroupScore {
+  tasks: number;
+  /** Tasks whose test run passed as a whole */
+  resolved: number;
+  testsPassed: number;
+  testsTotal: number;
+  /** Mean task score */
+  score: number;
+}
+
+export interface SplitScore {
+  visible: TaskScore;
+  hidden: TaskScore;
+}
+
+export interface HiddenScores {
+  /** Tasks whose hidden tests ran */
+  tasks: number;
+  /** Mean visible and hidden task scores */
+  visible: number;
+  hidden: number;
+}
+
+export interface RunScores {
+  overall: GroupScore;
+  byCategory: Record<string, GroupScore>;
+  byDifficulty: Record<string, GroupScore>;
+  /** Only for runs with held-out tests */
+  hidden?: HiddenScores;
+}
+
+/**
+ * Score a task's tests. Tests may be given weights by test id (see
+ * flaky.ts); the others weigh 1. Counts are of tests, unweighted.
+ */
+export function scoreTests(tests: TestCaseResult[], weights?: Map<string, number>): TaskScore {
+  const passed = tests.filter(t => t.status === "pass").length;
+  const failed = tests.filter(t => t.status === "fail").length;
+  const skipped = tests.length - passed - failed;
+  if (!weights || weights.size === 0) {
+    return { passed, failed, skipped, score: passed + failed > 0 ? passed / (passed + failed) : 0 };
+  }
+
+  const weight = (t: TestCaseResult) => weights.get(testId(t)) ?? 1;
+  const sum = (ts: TestCaseResult[]) => ts.reduce((n, t) => n + weight(t), 0);
+  const total = sum(tests.filter(t => t.status !== "skip"));
+  return { passed, failed, skipped, score: total > 0 ? sum(tests.filter(t => t.status === "pass")) / total : 0 };
+}
+
+export function isHiddenTest(test: TestCaseResult): boolean {
+  return test.file.startsWith("hidden/");
+}
+
+/**
+ * Score the visible and hidden tests of a run apart, or undefined if no
+ * hidden test ran.
+ */
+export function splitScore(tests: TestCaseResult[], weights?: Map<string, number>): SplitScore | undefined {
+  const hidden = tests.filter(isHiddenTest);
+  if (hidden.length === 0) {
+    return undefined;
+  }
+  return { visible: scoreTests(tests.filter(t => !isHiddenTest(t)), weights), hidden: scoreTests(hidden, weights) };
+}
+
+function scoreGroup(tasks: TaskReport[]): GroupScore {
+  const scores = tasks.map(t => t.score);
+
+  return {
+    tasks: tasks.length,
+    resolved: tasks.filter(t => t.outcome === "pass").length,
+    testsPassed: scores.reduce((n, s) => n + s.passed, 0),
+    testsTotal: scores.reduce((n, s) => n + s.passed + s.failed, 0),
+    score: scores.length > 0 ? scores.reduce((n, s) => n + s.score, 0) / scores.length : 0,
+  };
+}
+
+function groupBy(tasks: TaskReport[], key: (t: TaskReport) => string): Record<string, GroupScore> {
+  const groups = new Map<string, TaskReport[]>();
+  for (const t of tasks) {
+    groups.set(key(t), [...(groups.get(key(t)) ?? []), t]);
+  }
+  return Object.fromEntries([...groups].map(([name, members]) => [name, scoreGroup(members)]));
+}
+
+/**
+ * Score a run overall, per category and per difficulty level.
+ * Skipped tasks are left out since they say nothing about the code.
+ */
+export function scoreRun(tasks: TaskReport[]): RunScores {
+  const scored = tasks.filter(t => t.outcome !== "skipped");
+  const split = scored.flatMap(t => (t.split ? [t.split] : []));
+  const mean = (scores: TaskScore[]) => scores.reduce((n, s) => n + s.score, 0) / scores.length;
+
+  return {
+    overall: scoreGroup(scored),
+    byCategory: groupBy(scored, t => t.category ?? "Unknown"),
+    byDifficulty: groupBy(scored, t => t.difficulty ?? "unknown"),
+    hidden:
+      split.length > 0
+        ? { tasks: split.length, visible: mean(split.map(s => s.visible)), hidden: mean(split.map(s => s.hidden)) }
+        : undefined,
+  };
+}
+
+export function formatScore(score: number): string {
+  return `${(score * 100).toFixed(1)}%`;
+}
+
+function formatGroup(name: string, group: GroupScore, width: number): string {
+  return `  ${name.padEnd(width)}  ${formatScore(group.score).padStart(6)}  (${group.resolved}/${group.tasks} resolved, ${group.testsPassed}/${group.testsTotal} tests)`;
+}
+
+/**
+ * Render the per-category and per-difficulty breakdown for the console.
+ */
+export function formatScoreTable(scores: RunScores): string[] {
+  if (scores.overall.tasks === 0) {
+    return [];
+  }
+  const groups = [scores.byCategory, scores.byDifficulty];
+  const width = Math.max(0, ...groups.flatMap(g => Object.keys(g).map(name => name.length)));
+  const lines = ["\nScore by category:"];
+
+  for (const name of Object.keys(scores.byCategory).sort()) {
+    lines.push(formatGroup(name, scores.byCategory[name]!, width));
+  }
+  lines.push("\nScore by difficulty:");
+  for (const name of [...DIFFICULTIES, "unknown"].filter(d => d in scores.byDifficulty)) {
+    lines.push(formatGroup(name, scores.byDifficulty[name]!, width));
+  }
+  if (scores.hidden) {
+    const { tasks, visible, hidden } = scores.hidden;
+    lines.push(`\nHeld-out tests (${tasks} task(s)): visible ${formatScore(visible)}, hidden ${formatScore(hidden)}`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,106 @@
+/**
+ * Provisioning of the services tasks declare in task.json.
+ *
+ * Before a test run the harness asks each declared service for a running
+ * instance and passes its connection details to the tests through the
+ * environment. A service that cannot be provided makes the run count as
+ * skipped rather than failed, so a missing database never looks like a
+ * broken fix.
+ *
+ * - redis: an in-process stand-in (see redis-server.ts), always available.
+ * - postgres: no stand-in; uses the server in DATABASE_URL or POSTGRES_URL
+ *   (the variables Bun.sql reads) if one is configured and reachable.
+ */
+
+import type { Service } from "./manifest";
+import { startRedisServer } from "./redis-server";
+
+export interface RunningServices {
+  /** Variables to add to the test run's environment */
+  env: Record<string, string>;
+  stop(): void;
+}
+
+interface ServiceInstance {
+  env: Record<string, string>;
+  stop?: () => void;
+}
+
+export class ServiceUnavailableError extends Error {
+  constructor(
+    public readonly service: Service,
+    public readonly reason: string,
+  ) {
+    super(`service unavailable: ${service} (${reason})`);
+    this.name = "ServiceUnavailableError";
+  }
+}
+
+const CONNECT_TIMEOUT = 2000;
+
+/**
+ * Check that something accepts TCP connections on host:port.
+ */
+async function canConnect(hostname: string, port: number): Promise<boolean> {
+  const attempt = Bun.connect({ hostname, port, socket: { data() {} } }).then(
+    socket => {
+      socket.end();
+      return true;
+    },
+    () => false,
+  );
+  const timeout = Bun.sleep(CONNECT_TIMEOUT).then(() => false);
+  return Promise.race([attempt, timeout]);
+}
+
+async function startPostgres(): Promise<ServiceInstance> {
+  const url = process.env.DATABASE_URL ?? process.env.POSTGRES_URL;
+  if (!url) {
+    throw new ServiceUnavailableError("postgres", "set DATABASE_URL to a Postgres server");
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ServiceUnavailableError("postgres", "DATABASE_URL is not a valid URL");
+  }
+  if (!(await canConnect(parsed.hostname || "localhost", Number(parsed.port || 5432)))) {
+    throw new ServiceUnavailableError("postgres", `cannot reach ${parsed.host}`);
+  }
+
+  return { env: { DATABASE_URL: url } };
+}
+
+async function startRedis(): Promise<ServiceInstance> {
+  const server = startRedisServer();
+  return { env: { REDIS_URL: server.url }, stop: () => server.stop() };
+}
+
+const PROVIDERS: Record<Service, () => Promise<ServiceInstance>> = {
+  redis: startRedis,
+  postgres: startPostgres,
+};
+
+/**
+ * Start the given services for one test run.
+ * Throws ServiceUnavailableError if any of them cannot be provided; the
+ * ones already started are stopped again.
+ */
+export async function startServices(services: Service[]): Promise<RunningServices> {
+  const instances: ServiceInstance[] = [];
+  const stop = () => {
+    for (const instance of instances) instance.stop?.();
+  };
+
+  try {
+    for (const service of services) {
+      instances.push(await PROVIDERS[service]());
+    }
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  return { env: Object.assign({}, ...instances.map(i => i.env)), stop };
+}
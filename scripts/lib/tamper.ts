@@ -0,0 +1,212 @@
+/**
+ * Tamper protection for model patches.
+ *
+ * A fix must change the code under test, not the yardstick. Before a patch
+ * is applied, every file diff that touches a protected path is stripped and
+ * each of its hunks is reported, so a patch that edits tests to make them
+ * pass shows up in the results instead of scoring as resolved.
+ *
+ * Protected, relative to the task directory:
+ * - tests: test/ and any *.test.* / *.spec.* file, except test/ in
+ *   test-focused tasks where fixing the tests is the task; there, hunks
+ *   that delete more tests than they add are applied but flagged
+ * - hidden/, the held-out tests the model never sees
+ * - solution/ and snapshots (any __snapshots__ directory)
+ * - package files that change how tests run or resolve modules
+ *   (package.json, lockfiles, tsconfig.json, bunfig.toml, node_modules/)
+ * - .env and .env.* at the task root, which bun test loads into process.env
+ * - harness metadata (task.json, baseline.json, flaky.json)
+ * - anything outside the task directory
+ *
+ * Patches may not reach protected code by reference either: a file diff
+ * whose added lines name a path under solution/ or hidden/, or a relative
+ * path leaving the task, is rejected too. evaluate.ts also removes
+ * solution/ and the harness metadata from the sandbox it applies patches in.
+ */
+
+import { posix } from "path";
+import type { Strategy } from "./manifest";
+import type { FileDiff } from "./patch";
+
+export interface RejectedHunk {
+  /** Path as written in the patch, relative to the task directory */
+  path: string;
+  /** The hunk's "@@ ... @@" header, or "(whole file)" for diffs without hunks */
+  hunk: string;
+  reason: string;
+}
+
+const PACKAGE_FILES = [
+  "package.json",
+  "bun.lock",
+  "bun.lockb",
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "tsconfig.json",
+  "jsconfig.json",
+  "bunfig.toml",
+];
+
+const HARNESS_FILES = ["task.json", "baseline.json", "flaky.json", "mutation.json"];
+
+/** Contents of the string and template literals on a line */
+const STRING_LITERAL = /(["'`])((?:\\.|(?!\1).)*)\1/g;
+
+/** A line declaring a test or suite, e.g. `test("...", ...)` or `describe.each(...)` */
+const TEST_DECLARATION = /^\s*(test|it|describe)(\.\w+)*\s*[(`]/;
+
+/**
+ * Why a patch may not touch path, or undefined if it may.
+ */
+export function protectedReason(path: string, strategy: Strategy): string | undefined {
+  const normalized = posix.normalize(path);
+  const parts = normalized.split("/");
+  const name = parts[parts.length - 1]!;
+
+  if (posix.isAbsolute(normalized) || parts[0] === ".." || /^tasks\/task-/.test(normalized)) {
+    return "outside the task directory";
+  }
+  if (parts[0] === "solution") {
+    return "modifies the reference solution";
+  }
+  if (parts[0] === "hidden") {
+    return "modifies hidden tests";
+  }
+  if (parts.includes("__snapshots__") || name.endsWith(".snap")) {
+    return "modifies test snapshots";
+  }
+  if (parts.includes("node_modules")) {
+    return "modifies installed packages";
+  }
+  if (PACKAGE_FILES.includes(name)) {
+    return "modifies package or build configuration";
+  }
+  if (parts.length === 1 && HARNESS_FILES.includes(name)) {
+    return "modifies harness metadata";
+  }
+  if (parts.length === 1 && (name === ".env" || name.startsWith(".env."))) {
+    return "modifies environment files loaded by bun test";
+  }
+
+  const isTest = parts[0] === "test" || /\.(test|spec)\.[cm]?[jt]sx?$/.test(name);
+  if (isTest && !(strategy === "test-focused" && parts[0] === "test")) {
+    return "modifies tests";
+  }
+
+  return undefined;
+}
+
+function hunkHeaders(file: FileDiff): string[] {
+  const headers = file.lines.filter(l => l.startsWith("@@")).map(l => l.match(/^@@[^@]*@@/)?.[0] ?? l);
+  return headers.length > 0 ? headers : ["(whole file)"];
+}
+
+/**
+ * Hunks of a test file diff that remove test declarations, if the diff as a
+ * whole removes more of them than it adds.
+ */
+function deletedTests(file: FileDiff): RejectedHunk[] {
+  const path = file.newPath ?? file.oldPath!;
+  const hunks: { hunk: string; removed: number; added: number }[] = [];
+  for (const line of file.lines) {
+    if (line.startsWith("@@")) {
+      hunks.push({ hunk: line.match(/^@@[^@]*@@/)?.[0] ?? line, removed: 0, added: 0 });
+    } else if (hunks.length > 0 && TEST_DECLARATION.test(line.slice(1))) {
+      if (line.startsWith("-")) hunks[hunks.length - 1]!.removed++;
+      if (line.startsWith("+")) hunks[hunks.length - 1]!.added++;
+    }
+  }
+
+  const net = hunks.reduce((n, h) => n + h.removed - h.added, 0);
+  if (net <= 0) {
+    return [];
+  }
+  return hunks
+    .filter(h => h.removed > h.added)
+    .map(h => ({ path, hunk: h.hunk, reason: `deletes ${h.removed - h.added} test declaration(s)` }));
+}
+
+/**
+ * Why a path written in file may not be referred to, or undefined if it may.
+ * Only literals that look like paths count, so words such as "hidden" in
+ * CSS or messages do not.
+ */
+function referenceReason(literal: string, file: string): string | undefined {
+  if (!literal.includes("/")) {
+    return undefined;
+  }
+  if (/(^|\/)tasks\/task-/.test(literal)) {
+    return "refers to files outside the task directory";
+  }
+  const resolved = literal.startsWith(".") ? posix.join(posix.dirname(file), literal) : posix.normalize(literal);
+  const parts = resolved.split("/");
+  if (literal.startsWith(".") && parts[0] === "..") {
+    return "refers to files outside the task directory";
+  }
+  if (parts.includes("solution")) {
+    return "refers to the reference solution";
+  }
+  if (parts.includes("hidden")) {
+    return "refers to hidden tests";
+  }
+  return undefined;
+}
+
+/**
+ * Hunks of a file diff whose added lines refer to protected paths.
+ */
+function protectedReferences(file: FileDiff): RejectedHunk[] {
+  const path = file.newPath ?? file.oldPath!;
+  const found: RejectedHunk[] = [];
+  let hunk = "(whole file)";
+  for (const line of file.lines) {
+    if (line.startsWith("@@")) {
+      hunk = line.match(/^@@[^@]*@@/)?.[0] ?? line;
+      continue;
+    }
+    if (!line.startsWith("+") || line.startsWith("+++")) continue;
+    for (const [, , literal] of line.slice(1).matchAll(STRING_LITERAL)) {
+      const reason = referenceReason(literal!, path);
+      if (reason && !found.some(f => f.hunk === hunk && f.reason === reason)) {
+        found.push({ path, hunk, reason });
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Split a task's file diffs into the ones that may be applied and the hunks
+ * that were rejected. Renames are checked on both their old and new path,
+ * and a file diff referring to protected paths is rejected as a whole, with
+ * the hunks that do. Allowed hunks that delete tests of a test-focused task are flagged.
+ */
+export function stripProtected(
+  files: FileDiff[],
+  strategy: Strategy,
+): { allowed: FileDiff[]; rejected: RejectedHunk[]; flagged: RejectedHunk[] } {
+  const allowed: FileDiff[] = [];
+  const rejected: RejectedHunk[] = [];
+  const flagged: RejectedHunk[] = [];
+
+  for (const file of files) {
+    const paths = [...new Set([file.oldPath, file.newPath].filter((p): p is string => p !== null))];
+    const blocked = paths.map(path => ({ path, reason: protectedReason(path, strategy) })).find(p => p.reason);
+
+    const references = blocked ? [] : protectedReferences(file);
+
+    if (blocked) {
+      rejected.push(...hunkHeaders(file).map(hunk => ({ path: blocked.path, hunk, reason: blocked.reason! })));
+    } else if (references.length > 0) {
+      rejected.push(...references);
+    } else {
+      allowed.push(file);
+      if (strategy === "test-focused" && paths.some(path => posix.normalize(path).startsWith("test/"))) {
+        flagged.push(...deletedTests(file));
+      }
+    }
+  }
+
+  return { allowed, rejected, flagged };
+}
@@ -0,0 +1,257 @@
+/**
+ * Shared helpers for locating benchmark tasks and running their tests.
+ *
+ * Tests always run in a sandbox copy of the task (see sandbox.ts). How a
+ * task's solution is tested depends on the strategy in its task.json:
+ * - symlink: symlink src -> solution
+ * - test-focused: run solution/*.test.ts directly
+ * - copy: copy solution files into src, keeping original source files
+ *
+ * Held-out tests in a task's hidden/ directory run along with test/ but are
+ * never shown to models (see bundle.ts), so a fix that only satisfies the
+ * visible assertions shows up as a lower hidden score.
+ *
+ * Tests run under the bun on PATH unless another bun binary is given, as
+ * the Bun version matrix does. Tasks whose manifest asks for a newer Bun
+ * than the binary's are skipped.
+ */
+
+import { readdirSync, existsSync, symlinkSync, cpSync, rmSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { basename, delimiter, dirname, join } from "path";
+import { loadManifest, type Strategy, type TaskManifest } from "./manifest";
+import { createSandbox, removeSandbox } from "./sandbox";
+import { allocatePorts, releasePorts } from "./ports";
+import { startServices, ServiceUnavailableError, type RunningServices } from "./services";
+import { parseJunit, type TestCaseResult } from "./junit";
+import { runProcessGroup } from "./process";
+import { watchLeaks, type LeakReport } from "./leaks";
+
+export const tasksDir = join(import.meta.dir, "..", "..", "tasks");
+
+/**
+ * Whether name is a plain task directory name such as task-001-content-length,
+ * safe to use as a path segment.
+ */
+export function isTaskName(name: string): boolean {
+  return /^task-\d{3}-[a-z0-9]+(-[a-z0-9]+)*$/.test(name);
+}
+
+export interface TestRunResult {
+  passed: boolean;
+  skipped?: boolean;
+  /** Why the run was skipped, e.g. "service unavailable: postgres (...)" */
+  skipReason?: string;
+  /** The run hit its wall-clock limit and was killed */
+  timedOut?: boolean;
+  /** Individual results from bun's JUnit reporter */
+  tests?: TestCaseResult[];
+  /** What the run left behind (see leaks.ts) */
+  leaks?: LeakReport;
+  /** Wall-clock time of the run in milliseconds */
+  duration?: number;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * List task directory names in dir (the benchmark's tasks/ by default),
+ * optionally restricted to the given names.
+ */
+export function listTasks(only: string[] = [], dir = tasksDir): string[] {
+  return readdirSync(dir)
+    .filter(d => d.startsWith("task-"))
+    .filter(d => only.length === 0 || only.includes(d))
+    .sort();
+}
+
+/**
+ * The test directories of a task: the given one, plus hidden/ if the task has one.
+ */
+export function testDirs(taskDir: string, visible = "test/"): string[] {
+  return existsSync(join(taskDir, "hidden")) ? [visible, "hidden/"] : [visible];
+}
+
+const bunVersions = new Map<string, string>();
+
+/**
+ * The version a bun binary reports, e.g. "1.2.9". Throws if it cannot run.
+ */
+export function bunVersion(bun = "bun"): string {
+  let version = bunVersions.get(bun);
+  if (version === undefined) {
+    const result = Bun.spawnSync([bun, "--version"]);
+    if (!result.success) {
+      throw new Error(`${bun} --version failed: ${result.stderr.toString().trim()}`);
+    }
+    version = result.stdout.toString().trim();
+    bunVersions.set(bun, version);
+  }
+  return version;
+}
+
+/**
+ * Run `bun test` in dir, optionally restricted to the given paths, with
+ * the given bun binary.
+ *
+ * With a timeout (milliseconds), the run and everything it started are
+ * killed when it expires and the result is marked timedOut. The run gets a
+ * TMPDIR of its own, and what it leaves behind is reported in leaks.
+ */
+export async function runTests(
+  dir: string,
+  paths: string[] = [],
+  env: Record<string, string | undefined> = process.env,
+  timeout?: number,
+  bun = "bun",
+): Promise<TestRunResult> {
+  const junitFile = join(tmpdir(), `bun-bench-junit-${crypto.randomUUID()}.xml`);
+  const start = performance.now();
+  const leakWatch = watchLeaks(dir);
+
+  try {
+    const result = await runProcessGroup(
+      [bun, "test", `--preload=${leakWatch.preload}`, "--reporter=junit", `--reporter-outfile=${junitFile}`, ...paths],
+      { cwd: dir, env: { ...env, ...leakWatch.env }, timeout },
+    );
+    // bun may not get to write the report if it crashes or is killed
+    const tests = existsSync(junitFile) ? parseJunit(readFileSync(junitFile, "utf8")) : [];
+
+    return {
+      passed: result.exitCode === 0 && !result.timedOut,
+      timedOut: result.timedOut || undefined,
+      tests,
+      leaks: leakWatch.collect(result.lingering),
+      duration: performance.now() - start,
+      output: result.stderr,
+      error: result.timedOut ? `timed out after ${timeout}ms` : undefined,
+    };
+  } catch (error) {
+    return { passed: false, duration: performance.now() - start, error: String(error) };
+  } finally {
+    rmSync(junitFile, { force: true });
+    leakWatch.dispose();
+  }
+}
+
+/**
+ * Run the tests of a task (or a sandbox copy of it) with the ports and
+ * services its manifest asks for (see services.ts). The run is skipped,
+ * not failed, if a service is unavailable or bun is older than the
+ * manifest's minBunVersion, and killed once it exceeds the manifest's
+ * timeout.
+ */
+export async function runTaskTests(
+  dir: string,
+  manifest: TaskManifest,
+  paths: string[] = [],
+  bun = "bun",
+): Promise<TestRunResult> {
+  const env = { ...process.env };
+  // Tasks that read PORT for other purposes must not see one from the caller
+  delete env.PORT;
+  // Tests that spawn bun themselves get the same one
+  if (bun !== "bun" && basename(bun) === "bun") {
+    env.PATH = [dirname(bun), env.PATH].filter(Boolean).join(delimiter);
+  }
+
+  if (manifest.minBunVersion) {
+    let version: string;
+    try {
+      version = bunVersion(bun);
+    } catch (error) {
+      return { passed: false, error: String(error) };
+    }
+    if (Bun.semver.order(version, manifest.minBunVersion) < 0) {
+      return { passed: false, skipped: true, skipReason: `needs Bun ${manifest.minBunVersion} or newer, found ${version}` };
+    }
+  }
+
+  let services: RunningServices | undefined;
+  let port: number | undefined;
+
+  try {
+    services = await startServices(manifest.services);
+    Object.assign(env, services.env);
+    if (manifest.ports > 0) {
+      port = await allocatePorts(manifest.ports);
+      env.PORT = String(port);
+    }
+    return await runTests(dir, paths, env, manifest.timeout, bun);
+  } catch (error) {
+    if (error instanceof ServiceUnavailableError) {
+      return { passed: false, skipped: true, skipReason: error.message };
+    }
+    return { passed: false, error: String(error) };
+  } finally {
+    services?.stop();
+    if (port !== undefined) releasePorts(port, manifest.ports);
+  }
+}
+
+/**
+ * Run a task's tests against the code as checked in (the buggy src/).
+ */
+export async function testBuggy(taskDir: string): Promise<TestRunResult> {
+  let manifest: TaskManifest;
+  try {
+    manifest = loadManifest(taskDir);
+  } catch (error) {
+    return { passed: false, error: String(error) };
+  }
+
+  const sandbox = createSandbox(taskDir);
+  try {
+    return await runTaskTests(sandbox, manifest, testDirs(sandbox));
+  } finally {
+    removeSandbox(sandbox);
+  }
+}
+
+/**
+ * Put the reference solution in place inside a sandbox copy of a task.
+ */
+function applySolution(sandbox: string, strategy: Strategy): void {
+  const srcDir = join(sandbox, "src");
+  const solutionDir = join(sandbox, "solution");
+
+  if (strategy === "copy") {
+    // Copy solution files into src, keeping the other source files
+    cpSync(solutionDir, srcDir, { recursive: true });
+  } else if (strategy === "symlink") {
+    rmSync(srcDir, { recursive: true, force: true });
+    symlinkSync("solution", srcDir);
+  }
+  // Test-focused tasks keep src/ as is, their fixed tests live in solution/
+}
+
+/**
+ * Run a task's tests against its reference solution, with the given bun binary.
+ *
+ * The solution is swapped in inside a sandbox copy of the task, so the
+ * checked-in tree is left untouched even if the run is interrupted.
+ */
+export async function testSolution(taskDir: string, bun = "bun"): Promise<TestRunResult> {
+  if (!existsSync(join(taskDir, "solution"))) {
+    return { passed: false, skipped: true, skipReason: "no solution directory" };
+  }
+
+  let manifest: TaskManifest;
+  try {
+    manifest = loadManifest(taskDir);
+  } catch (error) {
+    return { passed: false, error: String(error) };
+  }
+
+  const sandbox = createSandbox(taskDir);
+  try {
+    applySolution(sandbox, manifest.strategy);
+    // Test-focused tasks are judged by their fixed test files
+    const paths = manifest.strategy === "test-focused" ? testDirs(sandbox, "solution/") : [];
+    return await runTaskTests(sandbox, manifest, paths, bun);
+  } catch (error) {
+    return { passed: false, error: String(error) };
+  } finally {
+    removeSandbox(sandbox);
+  }
+}
@@ -0,0 +1,266 @@
+#!/usr/bin/env bun
+/**
+ * Write surface-perturbed copies of the tasks (see lib/perturb.ts), for
+ * comparing model scores on the original and perturbed sets.
+ *
+ * Usage: bun run perturb [--out DIR] [--seed S] [--perturbations a,b] [--no-verify] [--jobs N] [task-name...]
+ *
+ * Each task is written to DIR/<task> (default out/perturbed) under its own
+ * name, so model patches for the perturbed set are named and evaluated like
+ * the originals: `bun run prompt --tasks DIR` and `bun run evaluate
+ * --tasks DIR`. Baselines are carried over with their test ids translated.
+ * What was changed in each task is recorded in DIR/perturbations.json.
+ *
+ * Unless --no-verify is given, each copy is tested: against a baseline, the
+ * FAIL_TO_PASS tests must still fail on src/ and the whole baseline must pass
+ * on the solution; without one, the copy must pass or fail as the original
+ * does. When a copy breaks, the riskier perturbations are dropped one by one
+ * (strings, then identifier renames, then file renames) and it is retried.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync, cpSync } from "fs";
+import { dirname, join } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks, testBuggy, testSolution } from "./lib/tasks";
+import { loadManifest, ManifestError } from "./lib/manifest";
+import { checkBaseline, loadBaseline, writeBaseline, type TestBaseline } from "./lib/baseline";
+import { loadFlaky, writeFlaky, type FlakyTests } from "./lib/flaky";
+import { perturbTask, perturbTestId, PERTURBATIONS, type Perturbation, type PerturbationRecord, type TaskFiles } from "./lib/perturb";
+import { parseJobs, runPool } from "./lib/pool";
+
+// Harness files are rewritten, not perturbed
+const HARNESS_FILES = ["task.json", "baseline.json", "flaky.json"];
+
+// Perturbations in the order they are dropped when a copy breaks
+const RISKY: Perturbation[] = ["strings", "rename-identifiers", "rename-files"];
+
+interface PerturbedTask {
+  record?: PerturbationRecord;
+  /** Perturbations left out because they broke the tests */
+  dropped: Perturbation[];
+  problems: string[];
+  skipReason?: string;
+}
+
+function isText(content: Buffer): boolean {
+  return !content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Read the task's text files; the others are returned as paths to copy.
+ */
+function readTask(taskDir: string): { files: TaskFiles; binary: string[] } {
+  const files: TaskFiles = new Map();
+  const binary: string[] = [];
+  for (const path of readdirSync(taskDir, { recursive: true, encoding: "utf8" }).sort()) {
+    if (HARNESS_FILES.includes(path) || !statSync(join(taskDir, path)).isFile()) continue;
+    const content = readFileSync(join(taskDir, path));
+    if (isText(content)) files.set(path, content.toString("utf8"));
+    else binary.push(path);
+  }
+  return { files, binary };
+}
+
+function writeTask(
+  taskDir: string,
+  dest: string,
+  files: TaskFiles,
+  binary: string[],
+  baseline?: TestBaseline,
+  flaky?: FlakyTests,
+): void {
+  rmSync(dest, { recursive: true, force: true });
+  mkdirSync(dest, { recursive: true });
+  cpSync(join(taskDir, "task.json"), join(dest, "task.json"));
+  for (const path of binary) {
+    mkdirSync(dirname(join(dest, path)), { recursive: true });
+    cpSync(join(taskDir, path), join(dest, path));
+  }
+  for (const [path, content] of files) {
+    mkdirSync(dirname(join(dest, path)), { recursive: true });
+    writeFileSync(join(dest, path), content);
+  }
+  if (baseline) writeBaseline(dest, baseline);
+  if (flaky) writeFlaky(dest, flaky);
+}
+
+function translateBaseline(baseline: TestBaseline, record: PerturbationRecord): TestBaseline {
+  return {
+    FAIL_TO_PASS: baseline.FAIL_TO_PASS.map(id => perturbTestId(id, record)).sort(),
+    PASS_TO_PASS: baseline.PASS_TO_PASS.map(id => perturbTestId(id, record)).sort(),
+  };
+}
+
+function translateFlaky(flaky: FlakyTests, record: PerturbationRecord): FlakyTests {
+  return { runs: flaky.runs, passes: Object.fromEntries(Object.entries(flaky.passes).map(([id, n]) => [perturbTestId(id, record), n])) };
+}
+
+/**
+ * Check that a perturbed copy in dest behaves like the original task.
+ * Returns the problems found, or a skip reason if the tests could not run.
+ */
+async function verifyCopy(taskDir: string, dest: string): Promise<{ problems: string[]; skipReason?: string }> {
+  const buggy = await testBuggy(dest);
+  const solution = await testSolution(dest);
+  if (buggy.skipped || solution.skipped) {
+    return { problems: [], skipReason: buggy.skipReason ?? solution.skipReason };
+  }
+
+  const problems: string[] = [];
+  const baseline = loadBaseline(dest);
+  if (baseline) {
+    const before = checkBaseline(baseline, buggy.tests ?? []);
+    const after = checkBaseline(baseline, solution.tests ?? []);
+    if (before.failToPass.passed > 0) {
+      problems.push(`${before.failToPass.passed} FAIL_TO_PASS test(s) pass against src/`);
+    }
+    if (!after.resolved) {
+      problems.push(`${after.failToPass.failing.length + after.passToPass.failing.length} baseline test(s) fail against solution/`);
+    }
+  } else {
+    if (buggy.passed !== (await testBuggy(taskDir)).passed) {
+      problems.push(`tests ${buggy.passed ? "pass" : "fail"} against src/, unlike the original`);
+    }
+    if (solution.passed !== (await testSolution(taskDir)).passed) {
+      problems.push(`tests ${solution.passed ? "pass" : "fail"} against solution/, unlike the original`);
+    }
+  }
+  return { problems };
+}
+
+async function perturbOne(
+  task: string,
+  dest: string,
+  kinds: Perturbation[],
+  seed: string,
+  verify: boolean,
+): Promise<PerturbedTask> {
+  const taskDir = join(tasksDir, task);
+  loadManifest(taskDir);
+  const baseline = loadBaseline(taskDir);
+  const flaky = loadFlaky(taskDir);
+
+  // Each attempt drops one more of the risky perturbations
+  const attempts = [kinds];
+  for (const risky of RISKY) {
+    const previous = attempts[attempts.length - 1]!;
+    if (previous.includes(risky)) attempts.push(previous.filter(k => k !== risky));
+  }
+
+  let problems: string[] = [];
+  for (const attempt of attempts) {
+    const dropped = kinds.filter(k => !attempt.includes(k));
+    const { files, binary } = readTask(taskDir);
+    const record = perturbTask(task, files, attempt, seed);
+    writeTask(taskDir, dest, files, binary, baseline && translateBaseline(baseline, record), flaky && translateFlaky(flaky, record));
+    if (!verify) {
+      return { record, dropped, problems: [] };
+    }
+
+    const result = await verifyCopy(taskDir, dest);
+    if (result.skipReason) {
+      rmSync(dest, { recursive: true, force: true });
+      return { dropped, problems: [], skipReason: result.skipReason };
+    }
+    if (result.problems.length === 0) {
+      return { record, dropped, problems: [] };
+    }
+    problems = result.problems;
+  }
+
+  rmSync(dest, { recursive: true, force: true });
+  return { dropped: kinds, problems };
+}
+
+async function main() {
+  const { values, positionals: only } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      out: { type: "string", default: join("out", "perturbed") },
+      seed: { type: "string", default: "1" },
+      perturbations: { type: "string", default: PERTURBATIONS.join(",") },
+      "no-verify": { type: "boolean", default: false },
+      jobs: { type: "string", short: "j" },
+    },
+    allowPositionals: true,
+  });
+
+  const kinds = values.perturbations.split(",").map(k => k.trim()) as Perturbation[];
+  const invalid = kinds.filter(k => !PERTURBATIONS.includes(k));
+  if (invalid.length > 0) {
+    console.error(`Unknown perturbations: ${invalid.join(", ")} (expected ${PERTURBATIONS.join(", ")})`);
+    process.exit(1);
+  }
+
+  const verify = !values["no-verify"];
+  const jobs = parseJobs(values.jobs);
+  const tasks = listTasks(only);
+  const unknown = only.filter(t => !tasks.includes(t));
+  if (unknown.length > 0) {
+    console.error(`Unknown tasks: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  mkdirSync(values.out, { recursive: true });
+  const indexPath = join(values.out, "perturbations.json");
+  const index: { seed: string; tasks: Record<string, PerturbationRecord> } =
+    existsSync(indexPath) ? JSON.parse(readFileSync(indexPath, "utf8")) : { seed: values.seed, tasks: {} };
+  if (index.seed !== values.seed) {
+    // Copies made with another seed no longer belong to the set
+    index.seed = values.seed;
+    index.tasks = {};
+  }
+
+  const failed: Record<string, string[]> = {};
+  let skipped = 0;
+
+  console.log(`Perturbing ${tasks.length} tasks into ${values.out} with seed ${values.seed}...`);
+
+  await runPool(tasks, jobs, async task => {
+    let result: PerturbedTask;
+    try {
+      result = await perturbOne(task, join(values.out, task), kinds, values.seed, verify);
+    } catch (error) {
+      result = { dropped: [], problems: [error instanceof ManifestError ? error.message : String(error)] };
+    }
+    delete index.tasks[task];
+
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines = [`\n${task}...`];
+    if (result.skipReason) {
+      skipped++;
+      lines.push(`  ⏭️  SKIPPED: ${result.skipReason}`);
+    } else if (!result.record) {
+      failed[task] = result.problems;
+      lines.push(`  ❌ NOT PERTURBED`);
+      lines.push(...result.problems.map(p => `     - ${p}`));
+    } else {
+      const { record } = result;
+      index.tasks[task] = record;
+      lines.push(`  ✅ ${record.applied.length > 0 ? record.applied.join(", ") : "nothing to perturb"}`);
+      if (result.dropped.length > 0) {
+        lines.push(`  ⚠️  Dropped because they broke the tests: ${result.dropped.join(", ")}`);
+      }
+    }
+    console.log(lines.join("\n"));
+  });
+
+  index.tasks = Object.fromEntries(Object.entries(index.tasks).sort(([a], [b]) => a.localeCompare(b)));
+  writeFileSync(indexPath, JSON.stringify(index, null, 2) + "\n");
+
+  const count = Object.keys(failed).length;
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(
+    `Results: ${tasks.length - count - skipped} perturbed${verify ? " and verified" : ""}, ${count} failed, ${skipped} skipped out of ${tasks.length} total`,
+  );
+  if (count > 0) {
+    console.log(`\nTasks left out of the perturbed set:`);
+    for (const [task, problems] of Object.entries(failed).sort()) {
+      console.log(`  - ${task}: ${problems.join("; ")}`);
+    }
+  }
+
+  process.exit(count > 0 ? 1 : 0);
+}
+
+main();
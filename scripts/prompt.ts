@@ -0,0 +1,92 @@
+#!/usr/bin/env bun
+/**
+ * Build the model input bundle of each task (see lib/bundle.ts).
+ *
+ * Usage: bun run prompt [--format json|markdown|both] [--out DIR] [--tasks DIR] [--no-tests] [--max-tokens N] [task-name...]
+ *
+ * Bundles are written to DIR (default out/prompts) as <task>.json and/or
+ * <task>.md. --no-tests leaves test/ out, except for test-focused tasks
+ * whose bug lives there. --max-tokens caps the estimated size of the file
+ * contents; files past the cap are cut or omitted, always in the same way.
+ * --tasks bundles another set of task directories, such as the perturbed
+ * copies written by `bun run perturb`.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks } from "./lib/tasks";
+import { loadManifest, ManifestError } from "./lib/manifest";
+import { buildBundle, renderJson, renderMarkdown } from "./lib/bundle";
+
+const FORMATS = ["json", "markdown", "both"];
+
+function main() {
+  const { values, positionals: only } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      format: { type: "string", default: "both" },
+      out: { type: "string", default: join("out", "prompts") },
+      tasks: { type: "string", default: tasksDir },
+      "no-tests": { type: "boolean", default: false },
+      "max-tokens": { type: "string" },
+    },
+    allowPositionals: true,
+  });
+
+  if (!FORMATS.includes(values.format)) {
+    console.error(`Invalid format: ${values.format} (expected ${FORMATS.join(", ")})`);
+    process.exit(1);
+  }
+
+  const maxTokens = values["max-tokens"] === undefined ? undefined : Number(values["max-tokens"]);
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+    console.error(`Invalid token cap: ${values["max-tokens"]}`);
+    process.exit(1);
+  }
+
+  const tasks = listTasks(only, values.tasks);
+  const unknown = only.filter(t => !tasks.includes(t));
+  if (unknown.length > 0) {
+    console.error(`Unknown tasks: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  mkdirSync(values.out, { recursive: true });
+  let capped = 0;
+
+  for (const task of tasks) {
+    const taskDir = join(values.tasks, task);
+    let manifest;
+    try {
+      manifest = loadManifest(taskDir);
+    } catch (error) {
+      if (error instanceof ManifestError) {
+        console.error(`❌ ${error.message}`);
+        process.exit(1);
+      }
+      throw error;
+    }
+
+    const bundle = buildBundle(taskDir, manifest, { tests: !values["no-tests"], maxTokens });
+    if (values.format !== "markdown") {
+      writeFileSync(join(values.out, `${task}.json`), renderJson(bundle));
+    }
+    if (values.format !== "json") {
+      writeFileSync(join(values.out, `${task}.md`), renderMarkdown(bundle));
+    }
+
+    const cut = bundle.files.filter(f => f.truncated).length + bundle.omitted.length;
+    if (cut > 0) {
+      capped++;
+      console.log(`  ⚠️  ${task}: ~${bundle.tokens} tokens, ${cut} file(s) cut to fit`);
+    } else {
+      console.log(`  ✅ ${task}: ~${bundle.tokens} tokens, ${bundle.files.length} file(s)`);
+    }
+  }
+
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`Results: ${tasks.length} bundles written to ${values.out}, ${capped} cut to fit the token cap`);
+}
+
+main();
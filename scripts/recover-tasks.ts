@@ -0,0 +1,128 @@
+#!/usr/bin/env bun
+/**
+ * Detect and repair tasks left half-modified by older harness runs.
+ *
+ * Earlier versions of test-solutions.ts swapped solutions into the
+ * checked-in tree: src/ was renamed to src.bak and replaced by a symlink to
+ * solution/, or build files in src/ were renamed to *.bak and overwritten.
+ * A crash or Ctrl-C mid-run left those changes behind.
+ *
+ * Usage: bun run recover [--check] [task-name...]
+ *
+ * With --check, problems are only reported and the command exits non-zero
+ * if any are found.
+ */
+
+import { existsSync, lstatSync, readdirSync, renameSync, rmSync, unlinkSync } from "fs";
+import { join, relative } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks } from "./lib/tasks";
+
+interface Leftover {
+  description: string;
+  repair?: () => void;
+}
+
+// Unlike existsSync, also true for dangling symlinks
+function lstatExists(path: string): boolean {
+  try {
+    lstatSync(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function findBakFiles(dir: string): string[] {
+  return readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .filter(f => f.endsWith(".bak") && f !== "src.bak")
+    .filter(f => !f.split("/").includes("node_modules") && !f.startsWith("src.bak/"))
+    .sort();
+}
+
+function findLeftovers(taskDir: string): Leftover[] {
+  const leftovers: Leftover[] = [];
+  const srcDir = join(taskDir, "src");
+  const srcBakDir = join(taskDir, "src.bak");
+  const srcIsLink = lstatExists(srcDir) && lstatSync(srcDir).isSymbolicLink();
+
+  if (existsSync(srcBakDir)) {
+    if (!lstatExists(srcDir) || srcIsLink) {
+      leftovers.push({
+        description: "src.bak/ left behind by a symlink swap",
+        repair: () => {
+          if (lstatExists(srcDir)) unlinkSync(srcDir);
+          renameSync(srcBakDir, srcDir);
+        },
+      });
+    } else {
+      // Both are real directories, we cannot tell which one is right
+      leftovers.push({ description: "both src/ and src.bak/ exist, remove one by hand" });
+    }
+  } else if (srcIsLink) {
+    leftovers.push({ description: "src/ is a symlink and there is no src.bak/ to restore, check out src/ from git" });
+  }
+
+  for (const file of findBakFiles(taskDir)) {
+    const original = join(taskDir, file.slice(0, -".bak".length));
+    leftovers.push({
+      description: `${file} left behind by a copy swap`,
+      repair: () => {
+        rmSync(original, { force: true });
+        renameSync(join(taskDir, file), original);
+      },
+    });
+  }
+
+  return leftovers;
+}
+
+function main() {
+  const { values, positionals: only } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      check: { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const { check } = values;
+  const tasks = listTasks(only);
+
+  const unknown = only.filter(t => !tasks.includes(t));
+  if (unknown.length > 0) {
+    console.error(`Unknown tasks: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  let found = 0;
+  let unrepaired = 0;
+
+  for (const task of tasks) {
+    const taskDir = join(tasksDir, task);
+    const leftovers = findLeftovers(taskDir);
+    if (leftovers.length === 0) continue;
+
+    console.log(`\n${relative(process.cwd(), taskDir)}:`);
+    for (const leftover of leftovers) {
+      found++;
+      if (check || !leftover.repair) {
+        unrepaired++;
+        console.log(`  ❌ ${leftover.description}`);
+        continue;
+      }
+      leftover.repair();
+      console.log(`  🔧 Repaired: ${leftover.description}`);
+    }
+  }
+
+  console.log(`\n${"=".repeat(50)}`);
+  if (found === 0) {
+    console.log("No leftovers from earlier runs found");
+  } else {
+    console.log(`Found ${found} leftover(s), repaired ${found - unrepaired}`);
+  }
+
+  process.exit(unrepaired > 0 ? 1 : 0);
+}
+
+main();
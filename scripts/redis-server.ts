@@ -0,0 +1,31 @@
+#!/usr/bin/env bun
+/**
+ * Run the Redis stand-in the harness uses, to run Redis tasks by hand.
+ *
+ * Usage: bun run redis [--port N]
+ *
+ * The default port, 6379, is where Bun.RedisClient connects when REDIS_URL
+ * is unset, so `TASK=task-054-redis-get-set bun run test:task` works as is
+ * in another terminal. Stop the server with Ctrl-C.
+ */
+
+import { parseArgs } from "util";
+import { startRedisServer } from "./lib/redis-server";
+
+function main() {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: { port: { type: "string", short: "p", default: "6379" } },
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Invalid port: ${values.port}`);
+    process.exit(1);
+  }
+
+  const server = startRedisServer(port);
+  console.log(`✅ Redis stand-in listening on ${server.url}`);
+}
+
+main();
@@ -0,0 +1,116 @@
+#!/usr/bin/env bun
+/**
+ * Generate a static HTML dashboard from run reports (see lib/dashboard.ts).
+ *
+ * Usage: bun run report [--out DIR] [--db FILE] [report.json...]
+ *
+ * Each JSON report written by `evaluate --json` or `test:solutions --json`
+ * becomes one column, named after its model. Without report files, the
+ * latest recorded run of every model in the run history is used (see
+ * lib/history.ts). The dashboard is written to DIR (default out/report):
+ * index.html and one page per task under tasks/. A previous dashboard in
+ * DIR is replaced; a directory holding anything else is left alone.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { parseArgs } from "util";
+import { latestRuns, renderDashboard, type DashboardRun } from "./lib/dashboard";
+import { historyPath, openHistory } from "./lib/history";
+import type { RunReport } from "./lib/report";
+import { isTaskName } from "./lib/tasks";
+
+function loadRuns(files: string[], db: string): DashboardRun[] {
+  if (files.length > 0) {
+    return files.map(file => {
+      const report = JSON.parse(readFileSync(file, "utf8")) as RunReport;
+      return { name: report.model ?? basename(file, extname(file)), report };
+    });
+  }
+
+  if (!existsSync(db)) {
+    return [];
+  }
+  const history = openHistory(db);
+  try {
+    return latestRuns(history);
+  } finally {
+    history.close();
+  }
+}
+
+/**
+ * Files in dir that are not part of a dashboard, which replacing it would lose.
+ */
+function foreignFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir).flatMap(name => {
+    if (name === "index.html") {
+      return [];
+    }
+    if (name === "tasks" && statSync(join(dir, name)).isDirectory()) {
+      return readdirSync(join(dir, name))
+        .filter(page => !page.endsWith(".html"))
+        .map(page => join(name, page));
+    }
+    return [name];
+  });
+}
+
+function main() {
+  const { values, positionals: files } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      out: { type: "string", default: join("out", "report") },
+      db: { type: "string", default: historyPath },
+    },
+    allowPositionals: true,
+  });
+
+  const missing = files.filter(f => !existsSync(f));
+  if (missing.length > 0) {
+    console.error(`Unknown report files: ${missing.join(", ")}`);
+    process.exit(1);
+  }
+
+  const runs = loadRuns(files, values.db);
+  if (runs.length === 0) {
+    console.error(`No runs to report: pass JSON reports or record runs in ${values.db}`);
+    process.exit(1);
+  }
+
+  const badTasks = [...new Set(runs.flatMap(run => run.report.tasks.map(t => t.task)))].filter(t => !isTaskName(t));
+  if (badTasks.length > 0) {
+    console.error(`Reports name tasks that are not task directories: ${badTasks.map(t => JSON.stringify(t)).join(", ")}`);
+    process.exit(1);
+  }
+
+  const foreign = foreignFiles(values.out);
+  if (foreign.length > 0) {
+    console.error(`${values.out} holds files that are not a dashboard (${foreign.slice(0, 5).join(", ")}); pick an empty --out`);
+    process.exit(1);
+  }
+
+  // Names must tell the columns apart
+  const seen = new Map<string, number>();
+  for (const run of runs) {
+    const count = (seen.get(run.name) ?? 0) + 1;
+    seen.set(run.name, count);
+    if (count > 1) run.name = `${run.name} (${count})`;
+  }
+
+  // Only the previous dashboard's pages are left at this point
+  rmSync(join(values.out, "index.html"), { force: true });
+  rmSync(join(values.out, "tasks"), { recursive: true, force: true });
+  const pages = renderDashboard(runs);
+  for (const [path, html] of pages) {
+    mkdirSync(dirname(join(values.out, path)), { recursive: true });
+    writeFileSync(join(values.out, path), html);
+  }
+
+  console.log(`📄 Dashboard of ${runs.length} run(s) written to ${join(values.out, "index.html")} (${pages.size} pages)`);
+}
+
+main();
@@ -0,0 +1,45 @@
+#!/usr/bin/env bun
+/**
+ * Serve the run history over HTTP (see lib/results-server.ts).
+ *
+ * Usage: bun run results [--port N] [--host ADDR] [--token TOKEN] [--db FILE]
+ *
+ * CI jobs upload the JSON report of a run with POST /runs; the dashboard
+ * at / and the JSON API read the same database that local runs of
+ * test:solutions and evaluate are recorded in. The server listens on
+ * 127.0.0.1 unless --host says otherwise, and then requires a --token
+ * (or RESULTS_TOKEN) for uploads. Stop the server with Ctrl-C.
+ */
+
+import { parseArgs } from "util";
+import { historyPath, openHistory } from "./lib/history";
+import { startResultsServer } from "./lib/results-server";
+
+const LOOPBACK = ["127.0.0.1", "::1", "localhost"];
+
+function main() {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: "string", short: "p", default: "3000" },
+      host: { type: "string", default: "127.0.0.1" },
+      token: { type: "string", default: process.env.RESULTS_TOKEN },
+      db: { type: "string", default: historyPath },
+    },
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Invalid port: ${values.port}`);
+    process.exit(1);
+  }
+  if (!LOOPBACK.includes(values.host) && !values.token) {
+    console.error(`Listening on ${values.host} accepts uploads from other machines: pass --token or set RESULTS_TOKEN`);
+    process.exit(1);
+  }
+
+  const server = startResultsServer(openHistory(values.db), { port, hostname: values.host, token: values.token || undefined });
+  console.log(`✅ Results server listening on ${server.url} (history in ${values.db})`);
+}
+
+main();
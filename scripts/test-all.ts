@@ -0,0 +1,61 @@
+#!/usr/bin/env bun
+/**
+ * Run every task's tests against its buggy src/.
+ *
+ * Most tasks are expected to fail here; the output shows how many tests
+ * each task fails. Tasks run concurrently, each in its own sandbox with its
+ * own ports.
+ *
+ * Usage: bun run test:all [--jobs N] [task-name...]
+ */
+
+import { join } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks, testBuggy } from "./lib/tasks";
+import { parseJobs, runPool } from "./lib/pool";
+import { scoreTests } from "./lib/scoring";
+import { hasLeaks, formatLeaks } from "./lib/leaks";
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: { jobs: { type: "string", short: "j" } },
+    allowPositionals: true,
+  });
+  const jobs = parseJobs(values.jobs);
+  const tasks = listTasks(positionals);
+
+  console.log(`Testing ${tasks.length} tasks with ${jobs} worker(s)...`);
+
+  const results = await runPool(tasks, jobs, async task => {
+    const result = await testBuggy(join(tasksDir, task));
+    const score = scoreTests(result.tests ?? []);
+    const counts = result.tests?.length ? ` (${score.passed} pass, ${score.failed} fail)` : "";
+
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines: string[] = [];
+    if (result.skipped) {
+      lines.push(`  ⏭️  ${task}: skipped, ${result.skipReason}`);
+    } else if (result.timedOut) {
+      lines.push(`  ⏱️  ${task}: ${result.error}${counts}`);
+    } else if (result.error) {
+      lines.push(`  ⚠️  ${task}: ${result.error}`);
+    } else {
+      lines.push(`  ${result.passed ? "✅" : "❌"} ${task}${counts}`);
+    }
+    if (result.leaks && hasLeaks(result.leaks)) {
+      lines.push(...formatLeaks(result.leaks).map(l => `       left behind ${l}`));
+    }
+    console.log(lines.join("\n"));
+    return result;
+  });
+
+  const skipped = results.filter(r => r.skipped).length;
+  const failing = results.filter(r => !r.passed && !r.skipped).length;
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(
+    `Results: ${failing} failing, ${tasks.length - failing - skipped} passing, ${skipped} skipped out of ${tasks.length} total`,
+  );
+}
+
+main();
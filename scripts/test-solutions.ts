@@ -2,167 +2,156 @@
 /**
  * Test all solutions in the benchmark tasks.
  *
- * Most tasks: symlink src -> solution, run tests, restore
- * Test-focused tasks (016-020, 077-078): run solution/*.test.ts directly
- * Build tasks (031-035, 080): copy solution files into src, keeping original source files
+ * See lib/tasks.ts for how each kind of task is tested. Tasks run
+ * concurrently, each in its own sandbox with its own ports.
+ *
+ * Usage: bun run test:solutions [--repeat N] [--jobs N] [--json FILE] [--junit FILE] [--no-history] [task-name...]
+ *
+ * With --repeat, every solution is tested N times and passes only if every
+ * run does. Tests whose outcome varied are recorded as flaky in the task's
+ * flaky.json (see lib/flaky.ts); an existing flaky.json is left as is when
+ * no test varied. The reports describe each task's first failing run.
+ *
+ * Every run is recorded in the run history (see lib/history.ts) under the
+ * model name "solution", unless --no-history is given.
  */
 
-import { readdirSync, existsSync, renameSync, symlinkSync, unlinkSync, copyFileSync, mkdirSync } from "fs";
-import { join, basename } from "path";
-import { $ } from "bun";
-
-const tasksDir = join(import.meta.dir, "..", "tasks");
-
-// Tasks where the test file IS the buggy code and solution contains fixed test file
-const TEST_FOCUSED_TASKS = [
-  "task-016-test-async",
-  "task-017-mock-cleanup",
-  "task-018-expect-type",
-  "task-019-test-timeout",
-  "task-020-describe-scope",
-  "task-077-snapshot-object",
-  "task-078-snapshot-inline",
-];
-
-// Tasks where solution has build/config files that need to coexist with source files
-// These tasks have both source files (main.ts, etc) and buggy build.ts in src/
-// Solution only contains fixed build.ts, so we copy it into src/ instead of symlinking
-const COPY_SOLUTION_TASKS = [
-  "task-031-build-entry",
-  "task-032-build-external",
-  "task-033-build-outdir",
-  "task-034-build-minify",
-  "task-035-build-target",
-  "task-045-import-meta",
-  "task-080-compile-target",
-];
-
-async function testSolution(taskDir: string): Promise<{ passed: boolean; error?: string }> {
-  const taskName = taskDir.split("/").pop()!;
-  const srcDir = join(taskDir, "src");
-  const srcBakDir = join(taskDir, "src.bak");
-  const solutionDir = join(taskDir, "solution");
-
-  console.log(`\nTesting solution in ${taskName}...`);
-
-  if (!existsSync(solutionDir)) {
-    console.log(`  ⏭️  No solution directory, skipping`);
-    return { passed: true };
-  }
-
+import { join } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks, testSolution, type TestRunResult } from "./lib/tasks";
+import { loadManifest, type TaskManifest } from "./lib/manifest";
+import { parseJobs, runPool } from "./lib/pool";
+import { taskReport, buildRunReport, writeReports } from "./lib/report";
+import { formatScoreTable } from "./lib/scoring";
+import { formatLeaks } from "./lib/leaks";
+import { saveToHistory } from "./lib/history";
+import { findFlaky, writeFlaky } from "./lib/flaky";
+
+function tryLoadManifest(taskDir: string): TaskManifest | undefined {
   try {
-    if (TEST_FOCUSED_TASKS.includes(taskName)) {
-      // For test-focused tasks, run solution tests directly
-      const result = await $`cd ${taskDir} && bun test solution/`.nothrow();
-      const passed = result.exitCode === 0;
-      if (!passed) {
-        console.log(result.stderr.toString());
-      }
-      return { passed };
-    } else if (COPY_SOLUTION_TASKS.includes(taskName)) {
-      // For build tasks, copy solution files into src (keeping original source files)
-      const solutionFiles = readdirSync(solutionDir);
-      const backedUpFiles: string[] = [];
-
-      // Backup existing files that will be overwritten
-      for (const file of solutionFiles) {
-        const srcFile = join(srcDir, file);
-        const bakFile = join(srcDir, `${file}.bak`);
-        if (existsSync(srcFile)) {
-          renameSync(srcFile, bakFile);
-          backedUpFiles.push(file);
-        }
-        // Copy solution file to src
-        copyFileSync(join(solutionDir, file), srcFile);
-      }
-
-      const result = await $`cd ${taskDir} && bun test`.nothrow();
-      const passed = result.exitCode === 0;
-
-      // Restore backed up files
-      for (const file of solutionFiles) {
-        const srcFile = join(srcDir, file);
-        const bakFile = join(srcDir, `${file}.bak`);
-        unlinkSync(srcFile);
-        if (existsSync(bakFile)) {
-          renameSync(bakFile, srcFile);
-        }
-      }
-
-      if (!passed) {
-        console.log(result.stderr.toString());
-      }
-      return { passed };
-    } else {
-      // For regular tasks, symlink src -> solution
-      if (existsSync(srcDir)) {
-        renameSync(srcDir, srcBakDir);
-      }
-
-      symlinkSync("solution", srcDir);
-
-      const result = await $`cd ${taskDir} && bun test`.nothrow();
-      const passed = result.exitCode === 0;
-
-      // Restore original src
-      unlinkSync(srcDir);
-      if (existsSync(srcBakDir)) {
-        renameSync(srcBakDir, srcDir);
-      }
-
-      if (!passed) {
-        console.log(result.stderr.toString());
-      }
-      return { passed };
-    }
-  } catch (error) {
-    // Restore src on error
-    if (existsSync(srcBakDir) && !existsSync(srcDir)) {
-      try {
-        unlinkSync(srcDir);
-      } catch {}
-      renameSync(srcBakDir, srcDir);
-    }
-    return { passed: false, error: String(error) };
+    return loadManifest(taskDir);
+  } catch {
+    return undefined;
   }
 }
 
 async function main() {
-  const tasks = readdirSync(tasksDir)
-    .filter(d => d.startsWith("task-"))
-    .sort();
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      jobs: { type: "string", short: "j" },
+      repeat: { type: "string", default: "1" },
+      json: { type: "string" },
+      junit: { type: "string" },
+      "no-history": { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const jobs = parseJobs(values.jobs);
+  const repeat = Number(values.repeat);
+  if (!Number.isInteger(repeat) || repeat < 1) {
+    console.error(`Invalid --repeat: ${values.repeat}`);
+    process.exit(1);
+  }
+  const tasks = listTasks(positionals);
+  const startedAt = new Date();
 
   let passed = 0;
   let failed = 0;
+  let skipped = 0;
   const failures: string[] = [];
+  const flakyTasks: Record<string, number> = {};
 
-  for (const task of tasks) {
+  console.log(`Testing ${tasks.length} solutions${repeat > 1 ? ` ${repeat} times each` : ""} with ${jobs} worker(s)...`);
+
+  const reports = await runPool(tasks, jobs, async task => {
     const taskDir = join(tasksDir, task);
-    const result = await testSolution(taskDir);
+    const runs: TestRunResult[] = [];
+    while (runs.length < repeat && !runs[0]?.skipped) {
+      runs.push(await testSolution(taskDir));
+    }
+    const result = runs.find(r => !r.passed) ?? runs[0]!;
+    const count = repeat > 1 ? ` (${runs.filter(r => r.passed).length}/${runs.length} runs passed)` : "";
+
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines = [`\nTesting solution in ${task}...`];
 
-    if (result.passed) {
+    if (result.skipped) {
+      skipped++;
+      lines.push(`  ⏭️  SKIPPED: ${result.skipReason}`);
+    } else if (result.passed) {
       passed++;
-      console.log(`  ✅ PASSED`);
+      lines.push(`  ✅ PASSED${count}`);
     } else {
       failed++;
       failures.push(task);
-      console.log(`  ❌ FAILED`);
+      if (result.output) {
+        lines.push(result.output);
+      }
+      if (result.timedOut) {
+        lines.push(`  ⏱️  TIMED OUT${count}`);
+      } else {
+        lines.push(`  ❌ FAILED${count}`);
+      }
       if (result.error) {
-        console.log(`     Error: ${result.error}`);
+        lines.push(`     Error: ${result.error}`);
       }
     }
-  }
+
+    if (runs.length > 1) {
+      const flaky = findFlaky(runs.map(r => r.tests ?? []));
+      const ids = Object.keys(flaky.passes);
+      if (ids.length > 0) {
+        flakyTasks[task] = ids.length;
+        writeFlaky(taskDir, flaky);
+        lines.push(`  ⚠️  Flaky over ${runs.length} runs, recorded in flaky.json:`);
+        lines.push(...ids.map(id => `     - ${id}: passed ${flaky.passes[id]}/${runs.length}`));
+      }
+    }
+
+    const report = taskReport(task, tryLoadManifest(taskDir), result);
+    if (report.leaks) {
+      lines.push(`  ⚠️  Left behind:`);
+      lines.push(...formatLeaks(report.leaks).map(l => `     - ${l}`));
+    }
+
+    console.log(lines.join("\n"));
+    return report;
+  });
+
+  const report = buildRunReport("solutions", startedAt, reports, "solution");
 
   console.log(`\n${"=".repeat(50)}`);
-  console.log(`Results: ${passed} passed, ${failed} failed out of ${tasks.length} total`);
+  console.log(`Results: ${passed} passed, ${failed} failed, ${skipped} skipped out of ${tasks.length} total`);
+  console.log(formatScoreTable(report.scores).join("\n"));
 
   if (failures.length > 0) {
     console.log(`\nFailed tasks:`);
-    for (const f of failures) {
+    for (const f of failures.sort()) {
       console.log(`  - ${f}`);
     }
   }
 
+  if (Object.keys(flakyTasks).length > 0) {
+    console.log(`\nTasks with flaky tests:`);
+    for (const [task, count] of Object.entries(flakyTasks).sort()) {
+      console.log(`  - ${task}: ${count} test(s)`);
+    }
+  }
+
+  const leaky = report.tasks.filter(t => t.leaks);
+  if (leaky.length > 0) {
+    console.log(`\nTasks leaving resources behind:`);
+    for (const t of leaky) {
+      console.log(`  - ${t.task}: ${formatLeaks(t.leaks!).join("; ")}`);
+    }
+  }
+
+  writeReports(report, { json: values.json, junit: values.junit });
+  if (!values["no-history"]) {
+    saveToHistory(report);
+  }
+
   process.exit(failed > 0 ? 1 : 0);
 }
 
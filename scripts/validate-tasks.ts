@@ -0,0 +1,218 @@
+#!/usr/bin/env bun
+/**
+ * Validate the structure and behaviour of every benchmark task.
+ *
+ * Each task must have a README.md, a valid task.json, a non-empty src/, at
+ * least one test/*.test.ts and a non-empty solution/. A hidden/ directory of
+ * held-out tests is optional, but must hold *.test.ts files if present.
+ * Unless --no-run is given, the tests must also fail against src/ and pass
+ * against solution/.
+ * The README tables must match the manifests.
+ * Patches that replace a src/ file with a re-export of its solution must be
+ * rejected by the tamper protection (see lib/tamper.ts).
+ *
+ * Usage: bun run validate [--no-run] [--jobs N] [task-name...]
+ */
+
+import { readdirSync, existsSync, statSync, readFileSync } from "fs";
+import { join, posix } from "path";
+import { parseArgs } from "util";
+import { tasksDir, listTasks, testBuggy, testSolution } from "./lib/tasks";
+import { loadManifest, ManifestError, type TaskManifest } from "./lib/manifest";
+import { renderReadme } from "./lib/readme";
+import { parseJobs, runPool } from "./lib/pool";
+import { parsePatch } from "./lib/patch";
+import { stripProtected } from "./lib/tamper";
+
+const readmePath = join(import.meta.dir, "..", "README.md");
+
+function listFiles(dir: string): string[] {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    return [];
+  }
+  return readdirSync(dir, { recursive: true, encoding: "utf8" }).filter(f => statSync(join(dir, f)).isFile());
+}
+
+function checkStructure(taskDir: string, manifest?: TaskManifest): string[] {
+  const problems: string[] = [];
+
+  if (!existsSync(join(taskDir, "README.md"))) {
+    problems.push("missing README.md");
+  }
+
+  if (listFiles(join(taskDir, "src")).length === 0) {
+    problems.push("src/ is missing or empty");
+  }
+
+  const tests = listFiles(join(taskDir, "test")).filter(f => f.endsWith(".test.ts"));
+  if (tests.length === 0) {
+    problems.push("no test/*.test.ts files");
+  }
+
+  if (existsSync(join(taskDir, "hidden")) && !listFiles(join(taskDir, "hidden")).some(f => f.endsWith(".test.ts"))) {
+    problems.push("hidden/ has no *.test.ts files");
+  }
+
+  const solution = listFiles(join(taskDir, "solution"));
+  if (solution.length === 0) {
+    problems.push("solution/ is missing or empty");
+  } else if (manifest?.strategy === "test-focused" && !solution.some(f => f.endsWith(".test.ts"))) {
+    problems.push("test-focused task has no solution/*.test.ts files");
+  }
+
+  return problems;
+}
+
+/**
+ * Replace every src/ file that has a counterpart in solution/ with a
+ * re-export of the solution, e.g. `export { default } from "../solution/server";`
+ * for task-004, and check that evaluate would reject each such patch.
+ */
+function checkTamperProtection(taskDir: string, manifest: TaskManifest): string[] {
+  const solution = new Set(listFiles(join(taskDir, "solution")));
+  const problems: string[] = [];
+
+  for (const file of listFiles(join(taskDir, "src")).filter(f => solution.has(f) && /\.[cm]?[jt]sx?$/.test(f))) {
+    const old = readFileSync(join(taskDir, "src", file), "utf8").replace(/\n$/, "").split("\n");
+    const target = posix.relative(posix.dirname(`src/${file}`), `solution/${file}`).replace(/\.[cm]?[jt]sx?$/, "");
+    const patch = [
+      `--- a/src/${file}`,
+      `+++ b/src/${file}`,
+      `@@ -1,${old.length} +1 @@`,
+      ...old.map(line => `-${line}`),
+      `+export { default } from "${target}";`,
+    ].join("\n");
+
+    if (stripProtected(parsePatch(patch), manifest.strategy).allowed.length > 0) {
+      problems.push(`a patch re-exporting solution/${file} from src/${file} is not rejected`);
+    }
+  }
+  return problems;
+}
+
+interface BehaviourCheck {
+  problems: string[];
+  /** Set when the tests could not run, e.g. for lack of a service */
+  skipReason?: string;
+}
+
+async function checkBehaviour(taskDir: string, manifest: TaskManifest): Promise<BehaviourCheck> {
+  const problems: string[] = [];
+
+  // Test-focused tasks ship the bug in test/ itself, so those tests are
+  // expected to pass (wrongly) or misbehave rather than fail cleanly.
+  if (manifest.strategy !== "test-focused") {
+    const buggy = await testBuggy(taskDir);
+    if (buggy.skipped) {
+      return { problems, skipReason: buggy.skipReason };
+    }
+    // A buggy src/ that hangs still fails its tests
+    if (buggy.error && !buggy.timedOut) {
+      problems.push(`could not run tests against src/: ${buggy.error}`);
+    } else if (buggy.passed) {
+      problems.push("tests pass against the buggy src/");
+    }
+  }
+
+  const solution = await testSolution(taskDir);
+  if (solution.skipped) {
+    return { problems, skipReason: solution.skipReason };
+  }
+  if (solution.error) {
+    problems.push(`could not run tests against solution/: ${solution.error}`);
+  } else if (!solution.passed) {
+    problems.push("tests fail against solution/");
+  }
+
+  return { problems };
+}
+
+async function main() {
+  const { values, positionals: only } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      "no-run": { type: "boolean", default: false },
+      jobs: { type: "string", short: "j" },
+    },
+    allowPositionals: true,
+  });
+  const run = !values["no-run"];
+  const jobs = parseJobs(values.jobs);
+
+  const tasks = listTasks(only);
+  const unknown = only.filter(t => !tasks.includes(t));
+  if (unknown.length > 0) {
+    console.error(`Unknown tasks: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  const invalid: Record<string, string[]> = {};
+  const manifests: TaskManifest[] = [];
+
+  await runPool(tasks, jobs, async task => {
+    const taskDir = join(tasksDir, task);
+    const problems: string[] = [];
+    let skipReason: string | undefined;
+    let manifest: TaskManifest | undefined;
+    try {
+      manifest = loadManifest(taskDir);
+      manifests.push(manifest);
+    } catch (error) {
+      if (!(error instanceof ManifestError)) throw error;
+      problems.push(...error.problems.map(p => `task.json: ${p}`));
+    }
+
+    problems.push(...checkStructure(taskDir, manifest));
+    if (manifest) {
+      problems.push(...checkTamperProtection(taskDir, manifest));
+    }
+    // Running tests against a malformed task only produces noise
+    if (run && manifest && problems.length === 0) {
+      const behaviour = await checkBehaviour(taskDir, manifest);
+      problems.push(...behaviour.problems);
+      skipReason = behaviour.skipReason;
+    }
+
+    // Print each task's lines in one go so concurrent tasks do not interleave
+    const lines = [`\nValidating ${task}...`];
+    if (problems.length === 0 && skipReason) {
+      lines.push(`  ⏭️  VALID, tests not run: ${skipReason}`);
+    } else if (problems.length === 0) {
+      lines.push(`  ✅ VALID`);
+    } else {
+      invalid[task] = problems;
+      lines.push(`  ❌ INVALID`);
+      for (const p of problems) {
+        lines.push(`     - ${p}`);
+      }
+    }
+    console.log(lines.join("\n"));
+  });
+
+  // Tables only cover the whole task set, so skip the check when filtering
+  let readmeStale = false;
+  if (only.length === 0 && manifests.length === tasks.length) {
+    const readme = readFileSync(readmePath, "utf8");
+    readmeStale = renderReadme(readme, manifests) !== readme;
+  }
+
+  const failed = Object.keys(invalid).length;
+
+  console.log(`\n${"=".repeat(50)}`);
+  console.log(`Results: ${tasks.length - failed} valid, ${failed} invalid out of ${tasks.length} total`);
+
+  if (failed > 0) {
+    console.log(`\nInvalid tasks:`);
+    for (const [task, problems] of Object.entries(invalid).sort()) {
+      console.log(`  - ${task}: ${problems.join("; ")}`);
+    }
+  }
+
+  if (readmeStale) {
+    console.log(`\n❌ README.md tables are out of date, run \`bun run readme\``);
+  }
+
+  process.exit(failed > 0 || readmeStale ? 1 : 0);
+}
+
+main();
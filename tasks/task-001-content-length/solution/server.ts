@@ -1,7 +1,7 @@
 // FIXED: Uses Buffer.byteLength() to get actual byte count for Content-Length header
 
 const server = Bun.serve({
-  port: 3001,
+  port: Number(process.env.PORT ?? 3001),
   fetch(req) {
     const body = "こんにちは"; // 5 chars but 15 bytes in UTF-8
     return new Response(body, {
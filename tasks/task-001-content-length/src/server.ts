@@ -2,7 +2,7 @@
 // This causes incorrect Content-Length for multi-byte UTF-8 characters
 
 const server = Bun.serve({
-  port: 3001,
+  port: Number(process.env.PORT ?? 3001),
   fetch(req) {
     const body = "こんにちは"; // 5 chars but 15 bytes in UTF-8
     return new Response(body, {
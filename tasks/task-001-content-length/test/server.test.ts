@@ -1,12 +1,15 @@
 import { expect, test, afterAll } from "bun:test";
 import server from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3001);
+
 afterAll(() => {
   server.stop();
 });
 
 test("Content-Length should match byte length for UTF-8", async () => {
-  const res = await fetch("http://localhost:3001/");
+  // Call the handler directly: over the wire, Bun replaces the header with the real length
+  const res = await server.fetch(new Request(`http://localhost:${PORT}/`));
   const contentLength = res.headers.get("Content-Length");
   const body = await res.text();
   const actualBytes = Buffer.byteLength(body, "utf-8");
@@ -16,14 +19,14 @@ test("Content-Length should match byte length for UTF-8", async () => {
 });
 
 test("Response body should be correctly received", async () => {
-  const res = await fetch("http://localhost:3001/");
+  const res = await fetch(`http://localhost:${PORT}/`);
   const body = await res.text();
 
   expect(body).toBe("こんにちは");
 });
 
 test("Content-Length header should be present", async () => {
-  const res = await fetch("http://localhost:3001/");
+  const res = await fetch(`http://localhost:${PORT}/`);
   const contentLength = res.headers.get("Content-Length");
 
   expect(contentLength).not.toBeNull();
@@ -1,7 +1,7 @@
 // FIXED: Using Response.json() which automatically sets Content-Type header
 
 const server = Bun.serve({
-  port: 3002,
+  port: Number(process.env.PORT ?? 3002),
   fetch(req) {
     const url = new URL(req.url);
 
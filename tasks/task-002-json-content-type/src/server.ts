@@ -2,7 +2,7 @@
 // This causes clients to potentially misinterpret the response format
 
 const server = Bun.serve({
-  port: 3002,
+  port: Number(process.env.PORT ?? 3002),
   fetch(req) {
     const url = new URL(req.url);
 
@@ -1,12 +1,14 @@
 import { expect, test, afterAll } from "bun:test";
 import server from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3002);
+
 afterAll(() => {
   server.stop();
 });
 
 test("GET /api/user should return application/json Content-Type", async () => {
-  const res = await fetch("http://localhost:3002/api/user");
+  const res = await fetch(`http://localhost:${PORT}/api/user`);
   const contentType = res.headers.get("Content-Type");
 
   // This test FAILS because buggy code doesn't set Content-Type header
@@ -15,7 +17,7 @@ test("GET /api/user should return application/json Content-Type", async () => {
 });
 
 test("GET /api/items should return application/json Content-Type", async () => {
-  const res = await fetch("http://localhost:3002/api/items");
+  const res = await fetch(`http://localhost:${PORT}/api/items`);
   const contentType = res.headers.get("Content-Type");
 
   // This test FAILS for the same reason
@@ -23,7 +25,7 @@ test("GET /api/items should return application/json Content-Type", async () => {
 });
 
 test("GET /api/user should return valid JSON data", async () => {
-  const res = await fetch("http://localhost:3002/api/user");
+  const res = await fetch(`http://localhost:${PORT}/api/user`);
   const data = await res.json();
 
   expect(data).toHaveProperty("id");
@@ -33,7 +35,7 @@ test("GET /api/user should return valid JSON data", async () => {
 });
 
 test("GET /api/items should return array of items", async () => {
-  const res = await fetch("http://localhost:3002/api/items");
+  const res = await fetch(`http://localhost:${PORT}/api/items`);
   const data = await res.json();
 
   expect(Array.isArray(data)).toBe(true);
@@ -1,7 +1,7 @@
 // FIXED: POST handler properly awaits req.json() to get parsed data
 
 const server = Bun.serve({
-  port: 3003,
+  port: Number(process.env.PORT ?? 3003),
   // FIXED: Made fetch handler async
   async fetch(req) {
     const url = new URL(req.url);
@@ -1,7 +1,7 @@
 // BUG: POST handler doesn't await req.json(), returns Promise object instead of data
 
 const server = Bun.serve({
-  port: 3003,
+  port: Number(process.env.PORT ?? 3003),
   fetch(req) {
     const url = new URL(req.url);
 
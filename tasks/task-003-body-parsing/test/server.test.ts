@@ -1,6 +1,8 @@
 import { expect, test, afterAll } from "bun:test";
 import server from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3003);
+
 afterAll(() => {
   server.stop();
 });
@@ -8,7 +10,7 @@ afterAll(() => {
 test("POST /api/echo should return the same data that was sent", async () => {
   const testData = { message: "Hello, World!", count: 42 };
 
-  const res = await fetch("http://localhost:3003/api/echo", {
+  const res = await fetch(`http://localhost:${PORT}/api/echo`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(testData),
@@ -23,7 +25,7 @@ test("POST /api/echo should return the same data that was sent", async () => {
 test("POST /api/users should greet the user by name", async () => {
   const userData = { name: "Alice", email: "alice@example.com" };
 
-  const res = await fetch("http://localhost:3003/api/users", {
+  const res = await fetch(`http://localhost:${PORT}/api/users`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(userData),
@@ -39,7 +41,7 @@ test("POST /api/users should greet the user by name", async () => {
 test("POST /api/calculate should add two numbers", async () => {
   const calcData = { a: 10, b: 25 };
 
-  const res = await fetch("http://localhost:3003/api/calculate", {
+  const res = await fetch(`http://localhost:${PORT}/api/calculate`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(calcData),
@@ -56,7 +58,7 @@ test("POST /api/echo should include timestamp", async () => {
   const testData = { test: true };
   const beforeTime = Date.now();
 
-  const res = await fetch("http://localhost:3003/api/echo", {
+  const res = await fetch(`http://localhost:${PORT}/api/echo`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(testData),
@@ -14,7 +14,7 @@ const posts: Record<string, { id: string; title: string; authorId: string }> = {
 };
 
 const server = Bun.serve({
-  port: 3004,
+  port: Number(process.env.PORT ?? 3004),
   fetch(req) {
     const url = new URL(req.url);
     const parts = url.pathname.split("/");
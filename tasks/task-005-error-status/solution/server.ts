@@ -9,7 +9,7 @@ class ValidationError extends Error {
 }
 
 const server = Bun.serve({
-  port: 3005,
+  port: Number(process.env.PORT ?? 3005),
   async fetch(req) {
     const url = new URL(req.url);
 
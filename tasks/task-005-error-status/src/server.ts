@@ -1,7 +1,7 @@
 // BUG: Error handler returns 200 status code instead of appropriate error codes
 
 const server = Bun.serve({
-  port: 3005,
+  port: Number(process.env.PORT ?? 3005),
   async fetch(req) {
     const url = new URL(req.url);
 
@@ -29,8 +29,9 @@ describe("BigInt Column Handling", () => {
   });
 
   test("should preserve nanosecond timestamp precision", () => {
-    // Current time in nanoseconds - definitely exceeds MAX_SAFE_INTEGER
-    const timestampNs = nowNanoseconds();
+    // Current time in nanoseconds - definitely exceeds MAX_SAFE_INTEGER.
+    // Odd, so no double can hold it exactly whatever the clock reads
+    const timestampNs = nowNanoseconds() + 1n;
 
     console.log("Original timestamp (ns):", timestampNs.toString());
     console.log("MAX_SAFE_INTEGER:", Number.MAX_SAFE_INTEGER);
@@ -13,7 +13,7 @@ export interface WebSocketResponse {
 }
 
 const server = Bun.serve({
-  port: 3021,
+  port: Number(process.env.PORT ?? 3021),
   fetch(req, server) {
     // Upgrade HTTP request to WebSocket
     if (server.upgrade(req)) {
@@ -1,12 +1,14 @@
 import { expect, test, afterAll, beforeAll } from "bun:test";
 import server from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3021);
+
 afterAll(() => {
   server.stop();
 });
 
 test("WebSocket should parse JSON and respond with processed result", async () => {
-  const ws = new WebSocket("ws://localhost:3021");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   const responsePromise = new Promise<string>((resolve, reject) => {
     ws.onmessage = (event) => {
@@ -37,7 +39,7 @@ test("WebSocket should parse JSON and respond with processed result", async () =
 });
 
 test("WebSocket should handle uppercase action", async () => {
-  const ws = new WebSocket("ws://localhost:3021");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   const responsePromise = new Promise<string>((resolve, reject) => {
     ws.onmessage = (event) => {
@@ -68,7 +70,7 @@ test("WebSocket should handle uppercase action", async () => {
 });
 
 test("WebSocket should handle reverse action", async () => {
-  const ws = new WebSocket("ws://localhost:3021");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   const responsePromise = new Promise<string>((resolve, reject) => {
     ws.onmessage = (event) => {
@@ -99,7 +101,7 @@ test("WebSocket should handle reverse action", async () => {
 });
 
 test("WebSocket should return error for invalid JSON", async () => {
-  const ws = new WebSocket("ws://localhost:3021");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   const responsePromise = new Promise<string>((resolve, reject) => {
     ws.onmessage = (event) => {
@@ -15,7 +15,7 @@ function calculateChecksum(data: Uint8Array): number {
 }
 
 const server = Bun.serve({
-  port: 3022,
+  port: Number(process.env.PORT ?? 3022),
   fetch(req, server) {
     // Upgrade HTTP request to WebSocket
     if (server.upgrade(req)) {
@@ -1,6 +1,8 @@
 import { expect, test, afterAll } from "bun:test";
 import server from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3022);
+
 afterAll(() => {
   server.stop();
 });
@@ -14,7 +16,7 @@ function calculateChecksum(data: Uint8Array): number {
 }
 
 test("WebSocket should preserve binary data integrity", async () => {
-  const ws = new WebSocket("ws://localhost:3022");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   // Create binary data with bytes that would be corrupted as text
   const originalData = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]); // PNG header
@@ -50,7 +52,7 @@ test("WebSocket should preserve binary data integrity", async () => {
 });
 
 test("WebSocket should handle high-byte binary values", async () => {
-  const ws = new WebSocket("ws://localhost:3022");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   // Create binary data with high byte values (>127) that break text encoding
   const originalData = new Uint8Array([0xff, 0xfe, 0xfd, 0xfc, 0x80, 0x81, 0x82, 0x83]);
@@ -86,7 +88,7 @@ test("WebSocket should handle high-byte binary values", async () => {
 });
 
 test("WebSocket should echo back exact binary buffer", async () => {
-  const ws = new WebSocket("ws://localhost:3022");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   // Create a buffer with null bytes and special characters
   const originalData = new Uint8Array([0x00, 0x01, 0x02, 0x00, 0xff, 0x00, 0xab, 0xcd]);
@@ -118,7 +120,7 @@ test("WebSocket should echo back exact binary buffer", async () => {
 });
 
 test("WebSocket should return binary type for binary input", async () => {
-  const ws = new WebSocket("ws://localhost:3022");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   const originalData = new Uint8Array([0x01, 0x02, 0x03, 0x04]);
 
@@ -43,7 +43,7 @@ export function resetServer(): void {
 }
 
 const server = Bun.serve<ClientData>({
-  port: 3023,
+  port: Number(process.env.PORT ?? 3023),
   fetch(req, server) {
     const url = new URL(req.url);
 
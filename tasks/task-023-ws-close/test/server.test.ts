@@ -8,6 +8,8 @@ import server, {
   resetServer,
 } from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3023);
+
 beforeEach(() => {
   resetServer();
 });
@@ -18,7 +20,7 @@ afterAll(() => {
 });
 
 test("Client count should decrease when client disconnects", async () => {
-  const ws = new WebSocket("ws://localhost:3023");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   await new Promise<void>((resolve) => {
     ws.onopen = () => resolve();
@@ -44,7 +46,7 @@ test("Multiple clients should all be cleaned up on disconnect", async () => {
 
   // Connect 3 clients
   for (let i = 0; i < 3; i++) {
-    const ws = new WebSocket("ws://localhost:3023");
+    const ws = new WebSocket(`ws://localhost:${PORT}`);
     await new Promise<void>((resolve) => {
       ws.onopen = () => resolve();
     });
@@ -66,7 +68,7 @@ test("Multiple clients should all be cleaned up on disconnect", async () => {
 });
 
 test("Topic subscriptions should be cleaned up on disconnect", async () => {
-  const ws = new WebSocket("ws://localhost:3023");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   const messagePromise = new Promise<void>((resolve) => {
     let messageCount = 0;
@@ -98,7 +100,7 @@ test("Topic subscriptions should be cleaned up on disconnect", async () => {
 });
 
 test("Cleanup events should be recorded on disconnect", async () => {
-  const ws = new WebSocket("ws://localhost:3023");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   let clientId: string | undefined;
 
@@ -124,7 +126,7 @@ test("Cleanup events should be recorded on disconnect", async () => {
 });
 
 test("Heartbeat interval should be cleared on disconnect", async () => {
-  const ws = new WebSocket("ws://localhost:3023");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   await new Promise<void>((resolve) => {
     ws.onopen = () => resolve();
@@ -154,7 +156,7 @@ test("Heartbeat interval should be cleared on disconnect", async () => {
 });
 
 test("Client with multiple subscriptions should have all cleaned up", async () => {
-  const ws = new WebSocket("ws://localhost:3023");
+  const ws = new WebSocket(`ws://localhost:${PORT}`);
 
   let messagesReceived = 0;
   const messagePromise = new Promise<void>((resolve) => {
@@ -54,7 +54,7 @@ function broadcastToRoom(
 }
 
 const server = Bun.serve<ClientData>({
-  port: 3024,
+  port: Number(process.env.PORT ?? 3024),
   fetch(req, server) {
     const url = new URL(req.url);
     const room = url.searchParams.get("room") || "default";
@@ -1,6 +1,8 @@
 import { expect, test, afterAll, beforeEach } from "bun:test";
 import server, { resetServer, getRoomClientCount } from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3024);
+
 beforeEach(() => {
   resetServer();
 });
@@ -12,7 +14,7 @@ afterAll(() => {
 
 test("Sender should NOT receive their own broadcast", async () => {
   // Connect sender
-  const sender = new WebSocket("ws://localhost:3024?room=test1");
+  const sender = new WebSocket(`ws://localhost:${PORT}?room=test1`);
 
   const senderMessages: string[] = [];
   let senderReady = false;
@@ -57,8 +59,8 @@ test("Sender should NOT receive their own broadcast", async () => {
 
 test("Other clients should receive broadcast", async () => {
   // Connect two clients to same room
-  const client1 = new WebSocket("ws://localhost:3024?room=test2");
-  const client2 = new WebSocket("ws://localhost:3024?room=test2");
+  const client1 = new WebSocket(`ws://localhost:${PORT}?room=test2`);
+  const client2 = new WebSocket(`ws://localhost:${PORT}?room=test2`);
 
   const client2Messages: any[] = [];
   let client1Ready = false;
@@ -116,8 +118,8 @@ test("Other clients should receive broadcast", async () => {
 
 test("Broadcast should only go to same room", async () => {
   // Connect clients to different rooms
-  const roomAClient = new WebSocket("ws://localhost:3024?room=roomA");
-  const roomBClient = new WebSocket("ws://localhost:3024?room=roomB");
+  const roomAClient = new WebSocket(`ws://localhost:${PORT}?room=roomA`);
+  const roomBClient = new WebSocket(`ws://localhost:${PORT}?room=roomB`);
 
   const roomBMessages: any[] = [];
   let roomAReady = false;
@@ -179,7 +181,7 @@ test("Multiple receivers should all get broadcast except sender", async () => {
   const readyClients = new Set<number>();
 
   for (let i = 0; i < 4; i++) {
-    const ws = new WebSocket("ws://localhost:3024?room=multiroom");
+    const ws = new WebSocket(`ws://localhost:${PORT}?room=multiroom`);
     receivedMessages.set(i, []);
 
     const clientIndex = i;
@@ -237,7 +239,7 @@ test("Sender message count should be one less than total clients", async () => {
 
   // Connect 5 clients
   for (let i = 0; i < 5; i++) {
-    const ws = new WebSocket("ws://localhost:3024?room=countroom");
+    const ws = new WebSocket(`ws://localhost:${PORT}?room=countroom`);
     const clientIndex = i;
 
     ws.onmessage = (event) => {
@@ -36,7 +36,7 @@ export function getUserFromToken(token: string): string | null {
 }
 
 const server = Bun.serve<ClientData>({
-  port: 3025,
+  port: Number(process.env.PORT ?? 3025),
   fetch(req, server) {
     const url = new URL(req.url);
 
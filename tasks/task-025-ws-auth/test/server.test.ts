@@ -1,6 +1,8 @@
 import { expect, test, afterAll, beforeEach } from "bun:test";
 import server, { authAttempts, resetServer, connectedClients } from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3025);
+
 beforeEach(() => {
   resetServer();
 });
@@ -16,7 +18,7 @@ test("Invalid token should return HTTP 401, not establish WebSocket", async () =
   let wsOpened = false;
 
   try {
-    const ws = new WebSocket("ws://localhost:3025?token=invalid-token");
+    const ws = new WebSocket(`ws://localhost:${PORT}?token=invalid-token`);
 
     const result = await Promise.race([
       new Promise<"opened">((resolve) => {
@@ -55,7 +57,7 @@ test("Missing token should return HTTP 401, not establish WebSocket", async () =
   let wsOpened = false;
 
   try {
-    const ws = new WebSocket("ws://localhost:3025");
+    const ws = new WebSocket(`ws://localhost:${PORT}`);
 
     await Promise.race([
       new Promise<void>((resolve) => {
@@ -85,7 +87,7 @@ test("Missing token should return HTTP 401, not establish WebSocket", async () =
 
 test("Auth check should happen in fetch stage, not open stage", async () => {
   // Connect with invalid token
-  const ws = new WebSocket("ws://localhost:3025?token=bad-token");
+  const ws = new WebSocket(`ws://localhost:${PORT}?token=bad-token`);
 
   await Promise.race([
     new Promise<void>((resolve) => {
@@ -107,7 +109,7 @@ test("Auth check should happen in fetch stage, not open stage", async () => {
   await new Promise((resolve) => setTimeout(resolve, 200));
 
   // Get auth attempts
-  const response = await fetch("http://localhost:3025/api/auth-attempts");
+  const response = await fetch(`http://localhost:${PORT}/api/auth-attempts`);
   const attempts = await response.json();
 
   // Test FAILS because buggy code does auth check in 'open' stage
@@ -117,7 +119,7 @@ test("Auth check should happen in fetch stage, not open stage", async () => {
 });
 
 test("Valid token should allow WebSocket connection", async () => {
-  const ws = new WebSocket("ws://localhost:3025?token=token-abc123");
+  const ws = new WebSocket(`ws://localhost:${PORT}?token=token-abc123`);
 
   let connected = false;
   let userId: string | null = null;
@@ -143,7 +145,7 @@ test("Valid token should allow WebSocket connection", async () => {
 });
 
 test("Unauthorized client should NOT receive any messages before disconnect", async () => {
-  const ws = new WebSocket("ws://localhost:3025?token=invalid");
+  const ws = new WebSocket(`ws://localhost:${PORT}?token=invalid`);
   const messagesReceived: string[] = [];
 
   ws.onmessage = (event) => {
@@ -171,7 +173,7 @@ test("Unauthorized client should NOT receive any messages before disconnect", as
 
 test("HTTP request to upgrade endpoint with bad token should return 401", async () => {
   // Make a regular HTTP request (not WebSocket) with invalid token
-  const response = await fetch("http://localhost:3025/?token=invalid", {
+  const response = await fetch(`http://localhost:${PORT}/?token=invalid`, {
     headers: {
       Upgrade: "websocket",
       Connection: "Upgrade",
@@ -3,7 +3,7 @@ import { fetchUserData, fetchMultipleResources, fetchWithRetry } from "../src/cl
 
 // Mock server that can simulate failures
 let server: ReturnType<typeof Bun.serve>;
-const PORT = 9026;
+const PORT = Number(process.env.PORT ?? 9026);
 const BASE_URL = `http://localhost:${PORT}`;
 
 beforeAll(() => {
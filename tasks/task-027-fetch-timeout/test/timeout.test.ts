@@ -3,7 +3,7 @@ import { fetchWithTimeout, fetchWithOptions, fetchWithRaceTimeout } from "../src
 
 // Mock server that can simulate slow responses
 let server: ReturnType<typeof Bun.serve>;
-const PORT = 9027;
+const PORT = Number(process.env.PORT ?? 9027);
 const BASE_URL = `http://localhost:${PORT}`;
 
 beforeAll(() => {
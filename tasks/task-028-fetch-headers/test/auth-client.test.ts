@@ -3,7 +3,7 @@ import { AuthenticatedClient, createAuthHeaders, isValidBearerToken } from "../s
 
 // Mock server that validates Bearer token format
 let server: ReturnType<typeof Bun.serve>;
-const PORT = 9028;
+const PORT = Number(process.env.PORT ?? 9028);
 const BASE_URL = `http://localhost:${PORT}`;
 const VALID_TOKEN = "abc123xyz";
 
@@ -3,7 +3,7 @@ import { postJson, putJson, patchJson, jsonRequest } from "../src/json-client";
 
 // Mock server that validates JSON body
 let server: ReturnType<typeof Bun.serve>;
-const PORT = 9029;
+const PORT = Number(process.env.PORT ?? 9029);
 const BASE_URL = `http://localhost:${PORT}`;
 
 beforeAll(() => {
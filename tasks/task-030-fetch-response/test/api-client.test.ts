@@ -9,7 +9,7 @@ import {
 
 // Mock server that returns various HTTP status codes
 let server: ReturnType<typeof Bun.serve>;
-const PORT = 9030;
+const PORT = Number(process.env.PORT ?? 9030);
 const BASE_URL = `http://localhost:${PORT}`;
 let retryCount = 0;
 
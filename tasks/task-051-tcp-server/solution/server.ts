@@ -26,7 +26,7 @@ export function resetConnections(): void {
 
 const server = Bun.listen<ServerData>({
   hostname: "localhost",
-  port: 3051,
+  port: Number(process.env.PORT ?? 3051),
   socket: {
     open(socket) {
       // Assign connection data
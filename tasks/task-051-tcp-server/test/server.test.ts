@@ -1,6 +1,8 @@
 import { expect, test, afterAll, beforeEach } from "bun:test";
 import server, { getConnectionCount, resetConnections } from "../src/server";
 
+const PORT = Number(process.env.PORT ?? 3051);
+
 afterAll(() => {
   server.stop();
 });
@@ -12,7 +14,7 @@ beforeEach(() => {
 test("TCP server should track new connections", async () => {
   const client = await Bun.connect({
     hostname: "localhost",
-    port: 3051,
+    port: PORT,
     socket: {
       data(socket, data) {},
       open(socket) {},
@@ -33,7 +35,7 @@ test("TCP server should track new connections", async () => {
 test("TCP server should clean up after client disconnect", async () => {
   const client = await Bun.connect({
     hostname: "localhost",
-    port: 3051,
+    port: PORT,
     socket: {
       data(socket, data) {},
       open(socket) {},
@@ -59,7 +61,7 @@ test("TCP server should handle multiple client connect/disconnect cycles", async
   for (let i = 0; i < 5; i++) {
     const client = await Bun.connect({
       hostname: "localhost",
-      port: 3051,
+      port: PORT,
       socket: {
         data(socket, data) {},
         open(socket) {},
@@ -84,7 +86,7 @@ test("TCP server should accurately count concurrent connections", async () => {
   for (let i = 0; i < 3; i++) {
     const client = await Bun.connect({
       hostname: "localhost",
-      port: 3051,
+      port: PORT,
       socket: {
         data(socket, data) {},
         open(socket) {},
@@ -118,7 +120,7 @@ test("TCP server should echo messages back to client", async () => {
 
   const client = await Bun.connect({
     hostname: "localhost",
-    port: 3051,
+    port: PORT,
     socket: {
       data(socket, data) {
         receivedData += data.toString();
@@ -110,7 +110,7 @@ export async function createTcpClient(options: ClientOptions): Promise<ClientRes
 export async function connectToServer(): Promise<void> {
   const result = await createTcpClient({
     hostname: "localhost",
-    port: 3052,
+    port: Number(process.env.PORT ?? 3052),
     timeout: 3000,
     onConnect: () => console.log("Connected!"),
     onData: (data) => console.log("Received:", data),
@@ -2,13 +2,15 @@ import { expect, test, afterAll, beforeAll } from "bun:test";
 import { createTcpClient, type ClientOptions } from "../src/client";
 import type { Socket } from "bun";
 
+const PORT = Number(process.env.PORT ?? 3052);
+
 // Create a simple test server
 let testServer: ReturnType<typeof Bun.listen> | null = null;
 
 beforeAll(() => {
   testServer = Bun.listen({
     hostname: "localhost",
-    port: 3052,
+    port: PORT,
     socket: {
       open(socket) {
         socket.write("Hello from server\n");
@@ -31,7 +33,7 @@ test("TCP client should connect to running server", async () => {
 
   const result = await createTcpClient({
     hostname: "localhost",
-    port: 3052,
+    port: PORT,
     onConnect: () => {
       connected = true;
     },
@@ -50,7 +52,7 @@ test("TCP client should receive data from server", async () => {
 
   const result = await createTcpClient({
     hostname: "localhost",
-    port: 3052,
+    port: PORT,
     onData: (data) => {
       receivedData += data;
     },
@@ -92,7 +94,7 @@ test("TCP client should handle connection timeout", async () => {
   // Try to connect to a non-routable address (will timeout)
   const result = await createTcpClient({
     hostname: "10.255.255.1", // Non-routable address
-    port: 3052,
+    port: PORT,
     timeout: 500, // 500ms timeout
     onError: (error) => {
       errorCalled = true;
@@ -129,7 +131,7 @@ test("TCP client should call onClose when connection ends", async () => {
 
   const result = await createTcpClient({
     hostname: "localhost",
-    port: 3052,
+    port: PORT,
     onClose: () => {
       closeCalled = true;
     },
@@ -6,6 +6,9 @@ import {
   type UdpSocketResult,
 } from "../src/socket";
 
+// Tests use BASE_PORT to BASE_PORT + 8
+const BASE_PORT = Number(process.env.PORT ?? 4053);
+
 let serverSocket: UdpSocketResult | null = null;
 let clientSocket: UdpSocketResult | null = null;
 
@@ -22,7 +25,7 @@ afterEach(async () => {
 });
 
 test("UDP socket should bind to specified port", async () => {
-  const targetPort = 4053;
+  const targetPort = BASE_PORT;
 
   serverSocket = await createUdpSocket({
     port: targetPort,
@@ -34,7 +37,7 @@ test("UDP socket should bind to specified port", async () => {
 });
 
 test("UDP socket should receive messages with sender info", async () => {
-  const serverPort = 4054;
+  const serverPort = BASE_PORT + 1;
   let receivedMessage: UdpMessage | null = null;
 
   serverSocket = await createUdpSocket({
@@ -46,7 +49,7 @@ test("UDP socket should receive messages with sender info", async () => {
 
   // Create client socket
   clientSocket = await createUdpSocket({
-    port: 4055,
+    port: BASE_PORT + 2,
     onMessage: () => {},
   });
 
@@ -59,12 +62,12 @@ test("UDP socket should receive messages with sender info", async () => {
   expect(receivedMessage).not.toBeNull();
   expect(receivedMessage?.data).toBe("Hello, Server!");
   expect(receivedMessage?.senderAddress).toBeTruthy();
-  expect(receivedMessage?.senderPort).toBe(4055);
+  expect(receivedMessage?.senderPort).toBe(BASE_PORT + 2);
 });
 
 test("UDP socket should send response to correct sender", async () => {
-  const serverPort = 4056;
-  const clientPort = 4057;
+  const serverPort = BASE_PORT + 3;
+  const clientPort = BASE_PORT + 4;
   let clientReceived: UdpMessage | null = null;
 
   // Create echo server
@@ -97,7 +100,7 @@ test("UDP socket should send response to correct sender", async () => {
 });
 
 test("UDP socket should handle multiple messages", async () => {
-  const serverPort = 4058;
+  const serverPort = BASE_PORT + 5;
   const messages: UdpMessage[] = [];
 
   serverSocket = await createUdpSocket({
@@ -108,7 +111,7 @@ test("UDP socket should handle multiple messages", async () => {
   });
 
   clientSocket = await createUdpSocket({
-    port: 4059,
+    port: BASE_PORT + 6,
     onMessage: () => {},
   });
 
@@ -138,7 +141,7 @@ test("UDP socket should report actual bound port", async () => {
 });
 
 test("UDP socket should handle binary data", async () => {
-  const serverPort = 4060;
+  const serverPort = BASE_PORT + 7;
   let receivedData: string | null = null;
 
   serverSocket = await createUdpSocket({
@@ -149,7 +152,7 @@ test("UDP socket should handle binary data", async () => {
   });
 
   clientSocket = await createUdpSocket({
-    port: 4061,
+    port: BASE_PORT + 8,
     onMessage: () => {},
   });
 
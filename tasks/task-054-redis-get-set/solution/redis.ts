@@ -63,7 +63,7 @@ async function main() {
   const stored = await redis.get("test-key");
   console.log("Stored value:", stored); // Prints: "valid-value"
 
-  await redis.quit();
+  await redis.close();
 }
 
 export { redis };
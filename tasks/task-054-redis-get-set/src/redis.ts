@@ -47,7 +47,7 @@ async function main() {
   const stored = await redis.get("test-key");
   console.log("Stored value:", stored); // Prints: "undefined"
 
-  await redis.quit();
+  await redis.close();
 }
 
 export { redis };
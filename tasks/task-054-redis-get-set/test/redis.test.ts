@@ -17,7 +17,7 @@ afterAll(async () => {
   if (keys.length > 0) {
     await redis.del(...keys);
   }
-  await redis.quit();
+  await redis.close();
 });
 
 describe("getValue", () => {
@@ -75,8 +75,8 @@ export async function cleanup(): Promise<void> {
   activeChannels.clear();
 
   // FIXED: Close both connections
-  await subscriber.quit();
-  await publisher.quit();
+  await subscriber.close();
+  await publisher.close();
 }
 
 // Example usage
@@ -54,7 +54,7 @@ export async function cleanup(): Promise<void> {
   // BUG: Doesn't unsubscribe from Redis, just clears the local Map
   subscriptions.clear();
   // BUG: Doesn't close the subscriber connection
-  await publisher.quit();
+  await publisher.close();
 }
 
 // Example usage
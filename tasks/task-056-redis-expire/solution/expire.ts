@@ -98,7 +98,7 @@ async function main() {
   const created = await setIfNotExistsWithTTL("test:setnx", "value", 30);
   console.log("Created new key:", created);
 
-  await redis.quit();
+  await redis.close();
 }
 
 export { redis };
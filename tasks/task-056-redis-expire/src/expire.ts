@@ -96,7 +96,7 @@ async function main() {
   const ttl2 = await getTTL("test:seconds");
   console.log("TTL after setWithTTLSeconds(10s):", ttl2, "seconds");
 
-  await redis.quit();
+  await redis.close();
 }
 
 export { redis };
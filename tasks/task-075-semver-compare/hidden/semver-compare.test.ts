@@ -0,0 +1,78 @@
+import { describe, test, expect } from "bun:test";
+import {
+  compareVersions,
+  isLessThan,
+  isGreaterThan,
+  isEqual,
+  sortVersions,
+} from "../src/semver-compare";
+
+describe("semver-compare (held out)", () => {
+  describe("compareVersions", () => {
+    test("should follow the precedence example of the semver specification", () => {
+      const chain = [
+        "1.0.0-alpha",
+        "1.0.0-alpha.1",
+        "1.0.0-alpha.beta",
+        "1.0.0-beta",
+        "1.0.0-beta.2",
+        "1.0.0-beta.11",
+        "1.0.0-rc.1",
+        "1.0.0",
+      ];
+      let previous: string | undefined;
+      for (const version of chain) {
+        if (previous !== undefined) {
+          expect(compareVersions(previous, version)).toBe(-1);
+          expect(compareVersions(version, previous)).toBe(1);
+        }
+        previous = version;
+      }
+    });
+
+    test("should compare numeric pre-release identifiers as numbers", () => {
+      expect(compareVersions("3.2.0-beta.9", "3.2.0-beta.10")).toBe(-1);
+    });
+
+    test("should compare pre-release tags other than alpha, beta and rc", () => {
+      expect(compareVersions("0.4.0-canary", "0.4.0")).toBe(-1);
+      expect(compareVersions("0.4.0-next.3", "0.4.0-next.3")).toBe(0);
+    });
+
+    test("should keep hyphens inside a pre-release identifier", () => {
+      expect(compareVersions("1.0.0-x-y", "1.0.0-x")).toBe(1);
+    });
+
+    test("should compare version numbers numerically", () => {
+      expect(compareVersions("1.10.0", "1.9.0")).toBe(1);
+      expect(compareVersions("0.0.9", "0.0.10")).toBe(-1);
+    });
+
+    test("should ignore build metadata", () => {
+      expect(compareVersions("1.0.0+build.1", "1.0.0")).toBe(0);
+      expect(compareVersions("1.0.0-rc.1+build.5", "1.0.0-rc.1")).toBe(0);
+    });
+  });
+
+  describe("helpers", () => {
+    test("should agree with compareVersions on pre-releases of other versions", () => {
+      expect(isLessThan("4.1.0-rc.2", "4.1.0")).toBe(true);
+      expect(isGreaterThan("4.1.0-rc.2", "4.0.9")).toBe(true);
+      expect(isEqual("4.1.0-rc.2", "4.1.0-rc.3")).toBe(false);
+    });
+  });
+
+  describe("sortVersions", () => {
+    test("should sort pre-releases of several versions", () => {
+      const versions = ["3.0.0", "3.0.0-beta.11", "2.9.1", "3.0.0-beta.2", "3.0.0-alpha", "2.9.1-rc.1"];
+      expect(sortVersions(versions)).toEqual([
+        "2.9.1-rc.1",
+        "2.9.1",
+        "3.0.0-alpha",
+        "3.0.0-beta.2",
+        "3.0.0-beta.11",
+        "3.0.0",
+      ]);
+    });
+  });
+});